@@ -1,7 +1,25 @@
-import type { StorageAdapter, ToolRegistry, Workflow } from "@aaow/types";
-import { WorkflowEngine } from "./engine";
-import { BudgetPoolManager } from "./budget";
+import type {
+  GeneratorRegistry,
+  PricingRegistry,
+  StorageAdapter,
+  StreamSourceRegistry,
+  ToolRegistry,
+  Workflow,
+} from "@aaow/types";
+import {
+  WorkflowEngine,
+  type RecoveredSession,
+  type SessionRecoveryPolicy,
+  type MessageValidationMode,
+  type WorkflowRunResult,
+} from "./engine";
+import type { RetryIncreasePolicy } from "./executors/intrinsic-tools";
+import type { Clock } from "./clock";
+import { BudgetPoolManager, getAvailableBudget } from "./budget";
 import { WorkflowSchema } from "./schemas";
+import { checkWorkflow } from "./checker";
+import { WorkflowCheckError } from "./errors";
+import { estimateWorkflowCost, type WorkflowCostEstimate } from "./forecast";
 
 /**
  * Application options for createApp
@@ -16,8 +34,35 @@ export interface AppOptions {
   /** Language model for LLM nodes (from AI SDK) */
   model?: any;
 
-  /** Whether to validate workflows with zod schemas */
+  /** Model pricing by model ID, for budgets in currency */
+  pricing?: PricingRegistry;
+
+  /** Cap on generated tokens per LLM call when the node sets none (default: 4096) */
+  defaultMaxTokens?: number;
+
+  /** Whether to validate workflows with zod schemas and `checkWorkflow` */
   validateWorkflows?: boolean;
+
+  /** Identifies this process as the owner of session leases */
+  workerId?: string;
+
+  /** How long a session lease lasts without a heartbeat (default: 30s) */
+  leaseDurationMs?: number;
+
+  /** Validation of node inputs and outputs (default: off) */
+  messageValidation?: MessageValidationMode;
+
+  /** How LLM nodes' requests for more retries are granted */
+  retryIncreasePolicy?: RetryIncreasePolicy;
+
+  /** Time source of stream operators (default: system clock) */
+  clock?: Clock;
+
+  /** External sources of stream nodes, by `sourceFn` name */
+  streamSources?: StreamSourceRegistry;
+
+  /** Functions of generator nodes, by `generatorFn` name */
+  generators?: GeneratorRegistry;
 }
 
 /**
@@ -30,15 +75,52 @@ export interface App {
   /** Budget pool manager */
   budgetManager: BudgetPoolManager;
 
-  /** Execute a workflow */
+  /**
+   * Execute a workflow
+   *
+   * With a budget pool, the workflow doesn't start when the upper bound of
+   * its estimated cost exceeds the pool's available budget (remaining minus
+   * reserved budget), unless `refuseOverBudget` is `false`.
+   */
   executeWorkflow(
     workflowId: string,
     input: unknown,
     options?: {
       sessionId?: string;
       budgetPoolId?: string;
+      refuseOverBudget?: boolean;
     }
-  ): Promise<{ sessionId: string; output: unknown; success: boolean }>;
+  ): Promise<WorkflowRunResult>;
+
+  /**
+   * Estimate the range of what a run of a workflow may spend, from its
+   * graph and the usage of its past runs
+   */
+  estimateWorkflowCost(
+    workflowId: string,
+    input: unknown
+  ): Promise<WorkflowCostEstimate>;
+
+  /**
+   * Resume a paused session once its approval request is resolved
+   *
+   * The paused node continues when the request was approved and fails when
+   * it was rejected.
+   */
+  resumeSession(
+    sessionId: string,
+    approvalId: string
+  ): Promise<WorkflowRunResult>;
+
+  /**
+   * Recover sessions left running by a worker that stopped
+   *
+   * Abandoned sessions are resumed from their completed nodes by default,
+   * or marked failed with the `fail` policy.
+   */
+  recoverSessions(options?: {
+    policy?: SessionRecoveryPolicy;
+  }): Promise<RecoveredSession[]>;
 
   /** Save a workflow */
   saveWorkflow(
@@ -54,7 +136,14 @@ export interface App {
   /** Get a workflow */
   getWorkflow(id: string): Promise<Workflow | null>;
 
-  /** Approve an approval request */
+  /**
+   * Approve an approval request
+   *
+   * Approving a `budget_increase` request adds the requested budget to the
+   * pool that ran out, or moves a called workflow to its independent pool.
+   * The budget is granted once, by the call that approved the pending
+   * request.
+   */
   approveRequest(
     approvalId: string,
     approvedBy: string,
@@ -104,10 +193,52 @@ export interface App {
  * ```
  */
 export function createApp(options: AppOptions): App {
-  const { storage, tools, model, validateWorkflows = true } = options;
+  const {
+    storage,
+    tools,
+    model,
+    pricing,
+    defaultMaxTokens,
+    validateWorkflows = true,
+    workerId,
+    leaseDurationMs,
+    messageValidation,
+    retryIncreasePolicy,
+    clock,
+    streamSources,
+    generators,
+  } = options;
 
   const budgetManager = new BudgetPoolManager(storage);
 
+  const createEngine = (budgetPoolId?: string) =>
+    new WorkflowEngine({
+      storage,
+      tools,
+      model,
+      pricing,
+      defaultMaxTokens,
+      budgetPoolId,
+      workerId,
+      leaseDurationMs,
+      messageValidation,
+      retryIncreasePolicy,
+      clock,
+      streamSources,
+      generators,
+    });
+
+  const estimateCost = (
+    workflowId: string,
+    workflow: Workflow,
+    input: unknown
+  ) =>
+    estimateWorkflowCost(workflowId, workflow, input, {
+      storage,
+      pricing: model?.modelId ? pricing?.[model.modelId] : undefined,
+      defaultMaxTokens,
+    });
+
   return {
     storage,
     budgetManager,
@@ -129,6 +260,11 @@ export function createApp(options: AppOptions): App {
             `Invalid workflow: ${JSON.stringify(result.error.errors, null, 2)}`
           );
         }
+
+        const diagnostics = checkWorkflow(workflow);
+        if (diagnostics.some((d) => d.severity === "error")) {
+          throw new WorkflowCheckError(diagnostics);
+        }
       }
 
       await storage.saveWorkflow({
@@ -148,31 +284,81 @@ export function createApp(options: AppOptions): App {
     },
 
     async executeWorkflow(workflowId, input, options = {}) {
+      const { refuseOverBudget = true, ...runOptions } = options;
+
       // Get workflow
       const storedWorkflow = await storage.getWorkflow(workflowId);
       if (!storedWorkflow) {
         throw new Error(`Workflow ${workflowId} not found`);
       }
 
-      // Create engine
-      const engine = new WorkflowEngine({
-        storage,
-        tools,
-        model,
-        budgetPoolId: options.budgetPoolId,
-      });
+      if (refuseOverBudget && options.budgetPoolId) {
+        const pool = await budgetManager.getPool(options.budgetPoolId);
+        if (!pool) {
+          throw new Error(`Budget pool ${options.budgetPoolId} not found`);
+        }
+
+        const estimate = await estimateCost(
+          workflowId,
+          storedWorkflow.definition,
+          input
+        );
+        const maxSpending =
+          pool.unit === "currency" ? estimate.cost?.max : estimate.tokens.max;
+        if (maxSpending === undefined) {
+          throw new Error(
+            `Budget pool ${pool.id} counts currency, but the model isn't priced`
+          );
+        }
+        const available = getAvailableBudget(pool);
+        if (maxSpending > available) {
+          const spending = Number.isFinite(maxSpending)
+            ? `up to ${maxSpending}`
+            : "without bound";
+          throw new Error(
+            `Workflow ${workflowId} may spend ${spending}, more than the available budget of pool ${pool.id} (${available})`
+          );
+        }
+      }
 
       // Execute
-      return engine.executeWorkflow(
+      return createEngine(options.budgetPoolId).executeWorkflow(
         storedWorkflow.definition,
         workflowId,
         input,
-        options
+        runOptions
       );
     },
 
+    async estimateWorkflowCost(workflowId, input) {
+      const storedWorkflow = await storage.getWorkflow(workflowId);
+      if (!storedWorkflow) {
+        throw new Error(`Workflow ${workflowId} not found`);
+      }
+
+      return estimateCost(workflowId, storedWorkflow.definition, input);
+    },
+
+    async resumeSession(sessionId, approvalId) {
+      return createEngine().resumeSession(sessionId, approvalId);
+    },
+
+    async recoverSessions(options) {
+      return createEngine().recoverSessions(options);
+    },
+
     async approveRequest(approvalId, approvedBy, notes) {
-      await storage.approveRequest(approvalId, approvedBy, notes);
+      // Only the call that approved the pending request grants its budget
+      const approved = await storage.approveRequest(
+        approvalId,
+        approvedBy,
+        notes
+      );
+
+      const approval = await storage.getApprovalRequest(approvalId);
+      if (approved && approval?.type === "budget_increase") {
+        await budgetManager.grantBudgetIncrease(approval);
+      }
     },
 
     async rejectRequest(approvalId, rejectedBy, reason) {
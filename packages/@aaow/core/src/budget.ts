@@ -1,4 +1,79 @@
-import type { BudgetPool, StorageAdapter } from "@aaow/types";
+import type {
+  ApprovalRequest,
+  BudgetPeriod,
+  BudgetPool,
+  BudgetRateLimit,
+  BudgetUnit,
+  LLMExecutionResult,
+  StorageAdapter,
+} from "@aaow/types";
+import { BudgetExhaustedError } from "./errors";
+
+/**
+ * Budget reserved on a pool and its ancestors
+ */
+export interface BudgetReservation {
+  /** Pool the budget is reserved on */
+  poolId: string;
+
+  /** Reserved amount, in the pool's unit */
+  amount: number;
+}
+
+/**
+ * Limits of a pool over time
+ */
+export interface BudgetPoolLimits {
+  /** Period after which the pool's budget resets */
+  period?: BudgetPeriod;
+
+  /** Caps on the spending over rolling windows */
+  rateLimits?: BudgetRateLimit[];
+}
+
+/**
+ * Start of the budget period containing a date, in UTC
+ */
+function getPeriodStart(period: BudgetPeriod, date: Date): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (period) {
+    case "hour":
+      return new Date(
+        Date.UTC(year, month, date.getUTCDate(), date.getUTCHours())
+      );
+    case "day":
+      return new Date(Date.UTC(year, month, date.getUTCDate()));
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+  }
+}
+
+/**
+ * Budget of a pool that is neither spent nor reserved
+ */
+export function getAvailableBudget(pool: BudgetPool): number {
+  return pool.remainingBudget - (pool.reservedBudget ?? 0);
+}
+
+/**
+ * Amount of an LLM execution in a pool's unit
+ */
+function getExecutionAmount(
+  pool: BudgetPool,
+  result: LLMExecutionResult
+): number {
+  if (pool.unit !== "currency") {
+    return result.usage?.totalTokens ?? 0;
+  }
+
+  if (result.cost === undefined) {
+    throw new Error(
+      `Budget pool ${pool.id} counts currency, but the execution has no cost (is its model priced?)`
+    );
+  }
+  return result.cost;
+}
 
 /**
  * Budget Pool Manager
@@ -10,22 +85,47 @@ export class BudgetPoolManager {
 
   /**
    * Create a new budget pool
+   *
+   * A child pool counts in the same unit as its parent, as its consumption
+   * is charged to the parent too. With a `period`, the total budget is a
+   * recurring limit that resets at the start of each period.
    */
   async createPool(
     id: string,
     totalBudget: number,
     parentPoolId?: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    unit: BudgetUnit = "tokens",
+    limits: BudgetPoolLimits = {}
   ): Promise<BudgetPool> {
+    if (parentPoolId) {
+      const parent = await this.storage.getBudgetPool(parentPoolId);
+      if (!parent) {
+        throw new Error(`Budget pool ${parentPoolId} not found`);
+      }
+      if ((parent.unit || "tokens") !== unit) {
+        throw new Error(
+          `Budget pool ${id} counts ${unit}, but its parent ${parentPoolId} counts ${parent.unit || "tokens"}`
+        );
+      }
+    }
+
     const pool: BudgetPool = {
       id,
       parentPoolId,
+      unit,
       totalBudget,
       usedBudget: 0,
       remainingBudget: totalBudget,
+      reservedBudget: 0,
       status: "active",
       createdAt: new Date(),
       metadata,
+      period: limits.period,
+      periodStartedAt: limits.period
+        ? getPeriodStart(limits.period, new Date())
+        : undefined,
+      rateLimits: limits.rateLimits,
     };
 
     await this.storage.createBudgetPool(pool);
@@ -36,6 +136,7 @@ export class BudgetPoolManager {
    * Check if budget is available
    */
   async checkBudget(poolId: string, amount: number): Promise<boolean> {
+    await this.resetEndedPeriods(poolId);
     const pool = await this.storage.getBudgetPool(poolId);
     if (!pool) {
       throw new Error(`Budget pool ${poolId} not found`);
@@ -45,69 +146,216 @@ export class BudgetPoolManager {
       return false;
     }
 
-    return pool.remainingBudget >= amount;
+    return getAvailableBudget(pool) >= amount;
   }
 
   /**
-   * Consume budget from a pool
+   * Consume budget from a pool and its ancestors
    */
   async consumeBudget(poolId: string, amount: number): Promise<void> {
-    const pool = await this.storage.getBudgetPool(poolId);
-    if (!pool) {
-      throw new Error(`Budget pool ${poolId} not found`);
+    await this.resetEndedPeriods(poolId);
+    try {
+      await this.storage.consumeBudgetAtomic(poolId, {
+        amount,
+        enforceLimit: true,
+      });
+    } catch (error) {
+      throw await this.explainFailure(poolId, amount, error);
     }
+  }
 
-    if (pool.status !== "active") {
-      throw new Error(`Budget pool ${poolId} is not active`);
+  /**
+   * Reserve budget on a pool and its ancestors
+   *
+   * Reserved budget isn't available to other consumers until the
+   * reservation is settled, so concurrent consumers sharing a pool can't
+   * spend more than it holds.
+   */
+  async reserveBudget(
+    poolId: string,
+    amount: number
+  ): Promise<BudgetReservation> {
+    await this.resetEndedPeriods(poolId);
+    try {
+      await this.storage.consumeBudgetAtomic(poolId, {
+        amount: 0,
+        reserve: amount,
+        enforceLimit: true,
+      });
+    } catch (error) {
+      throw await this.explainFailure(poolId, amount, error);
     }
+    return { poolId, amount };
+  }
 
-    if (pool.remainingBudget < amount) {
-      throw new Error(`Insufficient budget in pool ${poolId}`);
-    }
+  /**
+   * Settle a reservation with the amount actually spent
+   *
+   * Releases the reserved amount and consumes the spent one, even when it
+   * exceeds the reservation: the money is already spent.
+   */
+  async settleReservation(
+    reservation: BudgetReservation,
+    amount: number
+  ): Promise<void> {
+    await this.storage.consumeBudgetAtomic(reservation.poolId, {
+      amount,
+      reserve: -reservation.amount,
+    });
+  }
+
+  /**
+   * Charge an LLM execution to a pool, in the pool's unit
+   */
+  async chargeExecution(
+    poolId: string,
+    result: LLMExecutionResult
+  ): Promise<void> {
+    const pool = await this.requirePool(poolId);
+    await this.consumeBudget(poolId, getExecutionAmount(pool, result));
+  }
 
-    const usedBudget = pool.usedBudget + amount;
-    const remainingBudget = pool.remainingBudget - amount;
-    const status = remainingBudget <= 0 ? "exhausted" : "active";
+  /**
+   * Reserve the estimated maximum of an LLM execution, in the pool's unit
+   */
+  async reserveExecution(
+    poolId: string,
+    estimate: LLMExecutionResult
+  ): Promise<BudgetReservation> {
+    const pool = await this.requirePool(poolId);
+    return this.reserveBudget(poolId, getExecutionAmount(pool, estimate));
+  }
 
-    await this.storage.updateBudgetPool(poolId, {
-      usedBudget,
-      remainingBudget,
-      status,
-    });
+  /**
+   * Settle a reservation with the actual usage of an LLM execution
+   */
+  async settleExecution(
+    reservation: BudgetReservation,
+    result: LLMExecutionResult
+  ): Promise<void> {
+    const pool = await this.requirePool(reservation.poolId);
+    await this.settleReservation(
+      reservation,
+      result.usage ? getExecutionAmount(pool, result) : 0
+    );
+  }
+
+  /**
+   * Start a new period on the recurring pools of a chain whose period ended
+   */
+  private async resetEndedPeriods(poolId: string): Promise<void> {
+    const now = new Date();
+    for (let id: string | undefined = poolId; id; ) {
+      const pool = await this.storage.getBudgetPool(id);
+      if (!pool) {
+        return;
+      }
 
-    // Update parent pool if exists
-    if (pool.parentPoolId) {
-      await this.consumeBudget(pool.parentPoolId, amount);
+      if (pool.period) {
+        const periodStart = getPeriodStart(pool.period, now);
+        if (!pool.periodStartedAt || pool.periodStartedAt < periodStart) {
+          await this.storage.resetBudgetPeriod(pool.id, periodStart);
+        }
+      }
+      id = pool.parentPoolId;
     }
   }
 
   /**
-   * Increase budget pool allocation
+   * Turn a failed consumption into a `BudgetExhaustedError` when a pool of
+   * the chain ran out of budget, rather than being missing or suspended
    */
-  async increaseBudget(poolId: string, amount: number): Promise<void> {
+  private async explainFailure(
+    poolId: string,
+    amount: number,
+    error: unknown
+  ): Promise<unknown> {
+    for (let id: string | undefined = poolId; id; ) {
+      const pool = await this.storage.getBudgetPool(id);
+      if (!pool || pool.status === "suspended") {
+        return error;
+      }
+
+      const available = getAvailableBudget(pool);
+      if (pool.status === "exhausted" || available < amount) {
+        return new BudgetExhaustedError(pool, amount - Math.max(available, 0));
+      }
+      id = pool.parentPoolId;
+    }
+    return error;
+  }
+
+  private async requirePool(poolId: string): Promise<BudgetPool> {
     const pool = await this.storage.getBudgetPool(poolId);
     if (!pool) {
       throw new Error(`Budget pool ${poolId} not found`);
     }
+    return pool;
+  }
+
+  /**
+   * Increase budget pool allocation
+   */
+  async increaseBudget(poolId: string, amount: number): Promise<void> {
+    await this.storage.increaseBudgetPool(poolId, amount);
+  }
+
+  /**
+   * Grant the budget an approved `budget_increase` request asked for
+   *
+   * Increases the pool that ran out, or moves the session to a new
+   * independent pool when the request is for one. Each grant gets its own
+   * independent pool, named after the approval request.
+   */
+  async grantBudgetIncrease(request: ApprovalRequest): Promise<void> {
+    const { requestedBudget = 0, metadata } = request.context;
+    const poolId = metadata?.budgetPoolId;
+    if (typeof poolId !== "string") {
+      return;
+    }
 
-    const totalBudget = pool.totalBudget + amount;
-    const remainingBudget = pool.remainingBudget + amount;
-    const status = remainingBudget > 0 ? "active" : pool.status;
+    if (!metadata?.independent) {
+      await this.increaseBudget(poolId, requestedBudget);
+      return;
+    }
 
-    await this.storage.updateBudgetPool(poolId, {
-      totalBudget,
-      remainingBudget,
-      status,
-    });
+    const pool = await this.requirePool(poolId);
+    const independentPool = await this.createPool(
+      `${poolId}:independent:${request.id}`,
+      requestedBudget,
+      undefined,
+      { sessionId: request.sessionId, replacesPoolId: poolId },
+      pool.unit || "tokens"
+    );
+
+    const executionState = await this.storage.getExecutionState(
+      request.sessionId
+    );
+    if (executionState) {
+      await this.storage.saveExecutionState({
+        ...executionState,
+        budgetPoolId: independentPool.id,
+      });
+    }
   }
 
   /**
    * Get budget pool status
    */
   async getPool(poolId: string): Promise<BudgetPool | null> {
+    await this.resetEndedPeriods(poolId);
     return this.storage.getBudgetPool(poolId);
   }
 
+  /**
+   * Get the amount spent on a pool within `[from, to)`, including the
+   * spending of its child pools
+   */
+  async getSpending(poolId: string, from: Date, to: Date): Promise<number> {
+    const usage = await this.storage.listBudgetUsage(poolId, { from, to });
+    return usage.reduce((sum, record) => sum + record.amount, 0);
+  }
+
   /**
    * Get child budget pools
    */
@@ -126,13 +374,6 @@ export class BudgetPoolManager {
    * Reactivate a budget pool
    */
   async reactivatePool(poolId: string): Promise<void> {
-    const pool = await this.storage.getBudgetPool(poolId);
-    if (!pool) {
-      throw new Error(`Budget pool ${poolId} not found`);
-    }
-
-    if (pool.remainingBudget > 0) {
-      await this.storage.updateBudgetPool(poolId, { status: "active" });
-    }
+    await this.storage.reactivateBudgetPool(poolId);
   }
 }
@@ -0,0 +1,666 @@
+import type {
+  Workflow,
+  WorkflowContextItem,
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeGroup,
+  WorkflowNodeMessageType,
+  WorkflowStreamOperator,
+} from "@aaow/types";
+import { getPromptContextKeys, getTransformContextKeys } from "./context";
+import { findCycle, getIncomingEdges, parseFieldPath } from "./graph";
+import { getOverriddenInputContextKeys } from "./executors/tool-binding";
+
+/**
+ * Static analyzer for workflow definitions
+ *
+ * Complements `WorkflowSchema`, which only checks the structure: the checker
+ * follows edges and types across nodes the way the engine runs them.
+ */
+
+export type WorkflowDiagnosticCode =
+  | "unknown-type-ref"
+  | "unknown-node"
+  | "missing-entry-point"
+  | "missing-exit-point"
+  | "unknown-fallback-node"
+  | "cycle"
+  | "unreachable-node"
+  | "dead-end-node"
+  | "unknown-field"
+  | "type-mismatch"
+  | "undeclared-context-key"
+  | "wrong-context-item-type";
+
+/**
+ * Problem found in a workflow definition
+ */
+export interface WorkflowDiagnostic {
+  /** Errors make the workflow fail at runtime, warnings are suspicious */
+  severity: "error" | "warning";
+  code: WorkflowDiagnosticCode;
+
+  /** Node path, in the same form as node state IDs (`root.review`) */
+  path: string;
+
+  /** Index of the offending edge in the edges of the group at `path` */
+  edgeIndex?: number;
+
+  message: string;
+}
+
+type Typedefs = NonNullable<Workflow["typedefs"]>;
+
+type ContextItems = Map<string, WorkflowContextItem>;
+
+type ContextItemType = WorkflowContextItem["type"];
+
+type ConcreteType = Exclude<WorkflowNodeMessageType, { type: "ref" }>;
+
+/**
+ * Follow `ref` types, returning undefined for dangling refs
+ */
+function resolve(
+  type: WorkflowNodeMessageType,
+  typedefs: Typedefs
+): ConcreteType | undefined {
+  const seen = new Set<string>();
+  let resolved: WorkflowNodeMessageType | undefined = type;
+  while (resolved?.type === "ref") {
+    if (seen.has(resolved.ref)) return undefined;
+    seen.add(resolved.ref);
+    resolved = typedefs[resolved.ref];
+  }
+  return resolved;
+}
+
+/**
+ * Describe a message type for diagnostics
+ */
+function formatType(type: WorkflowNodeMessageType): string {
+  switch (type.type) {
+    case "ref":
+      return type.ref;
+    case "enum":
+      return `enum(${type.value.join(" | ")})`;
+    case "array":
+    case "optional":
+      return `${type.type}<${formatType(type.of)}>`;
+    default:
+      return type.type;
+  }
+}
+
+/**
+ * Get the fields stored next to the tag of a tagged union variant
+ */
+function getVariantFields(
+  variant: { description: string; type: WorkflowNodeMessageType },
+  typedefs: Typedefs
+): Extract<ConcreteType, { type: "object" }>["value"] {
+  const variantType = resolve(variant.type, typedefs);
+  return variantType?.type === "object" ? variantType.value : { value: variant };
+}
+
+/**
+ * Check whether values of the source type are valid for the target type
+ */
+function isAssignable(
+  source: WorkflowNodeMessageType,
+  target: WorkflowNodeMessageType,
+  typedefs: Typedefs,
+  visiting = new Map<ConcreteType, Set<ConcreteType>>()
+): boolean {
+  const from = resolve(source, typedefs);
+  const to = resolve(target, typedefs);
+
+  // Dangling refs are reported on their own
+  if (!from || !to) return true;
+
+  // Assume recursive types match while their comparison is in progress
+  const targets = visiting.get(from) ?? new Set<ConcreteType>();
+  if (targets.has(to)) return true;
+  targets.add(to);
+  visiting.set(from, targets);
+
+  const check = (s: WorkflowNodeMessageType, t: WorkflowNodeMessageType) =>
+    isAssignable(s, t, typedefs, visiting);
+
+  if (to.type === "optional") {
+    return check(from.type === "optional" ? from.of : from, to.of);
+  }
+
+  switch (from.type) {
+    case "string":
+      return to.type === "string";
+
+    case "enum":
+      return (
+        to.type === "string" ||
+        (to.type === "enum" && from.value.every((v) => to.value.includes(v)))
+      );
+
+    case "array":
+      return to.type === "array" && check(from.of, to.of);
+
+    case "optional":
+      return false;
+
+    case "object": {
+      if (to.type !== "object") return false;
+      return Object.entries(to.value).every(([name, field]) => {
+        if (!field) return true;
+        const sourceField = from.value[name];
+        if (!sourceField) {
+          return resolve(field.type, typedefs)?.type === "optional";
+        }
+        return check(sourceField.type, field.type);
+      });
+    }
+
+    case "taggedUnion": {
+      if (to.type !== "taggedUnion") return false;
+      return Object.entries(from.value).every(([tag, variant]) => {
+        if (!variant) return true;
+        const targetVariant = to.value[tag];
+        if (!targetVariant) return false;
+        return check(
+          { type: "object", value: getVariantFields(variant, typedefs) },
+          { type: "object", value: getVariantFields(targetVariant, typedefs) }
+        );
+      });
+    }
+  }
+}
+
+/**
+ * Get the type of a (nested) field
+ *
+ * Fields of a tagged union are looked up in its variants, narrowed to the
+ * tags matched by a condition on the union itself. Returns one type per
+ * variant, or undefined when the field doesn't exist.
+ */
+function getFieldTypes(
+  type: WorkflowNodeMessageType,
+  path: string[],
+  typedefs: Typedefs,
+  tags?: string[]
+): WorkflowNodeMessageType[] | undefined {
+  if (path.length === 0) {
+    return [type];
+  }
+
+  const resolved = resolve(type, typedefs);
+  if (!resolved) return [type];
+
+  const [name, ...rest] = path;
+  switch (resolved.type) {
+    case "object": {
+      const field = resolved.value[name];
+      return field ? getFieldTypes(field.type, rest, typedefs) : undefined;
+    }
+
+    case "taggedUnion": {
+      const result: WorkflowNodeMessageType[] = [];
+      for (const [tag, variant] of Object.entries(resolved.value)) {
+        if (!variant || (tags && !tags.includes(tag))) continue;
+
+        const field = getVariantFields(variant, typedefs)[name];
+        const fieldTypes = field && getFieldTypes(field.type, rest, typedefs);
+        if (!fieldTypes) return undefined;
+        result.push(...fieldTypes);
+      }
+      return result;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Collect dangling `ref`s in a message type
+ */
+function findDanglingRefs(
+  type: WorkflowNodeMessageType,
+  typedefs: Typedefs,
+  refs: Set<string> = new Set()
+): Set<string> {
+  switch (type.type) {
+    case "ref":
+      if (!(type.ref in typedefs)) refs.add(type.ref);
+      break;
+    case "array":
+    case "optional":
+      findDanglingRefs(type.of, typedefs, refs);
+      break;
+    case "object":
+    case "taggedUnion":
+      for (const field of Object.values(type.value)) {
+        if (field) findDanglingRefs(field.type, typedefs, refs);
+      }
+      break;
+  }
+  return refs;
+}
+
+/**
+ * Collect nodes reachable from a node by following edges
+ */
+function collectReachable(
+  edges: WorkflowEdge[],
+  start: string,
+  direction: "forward" | "backward"
+): Set<string> {
+  const reached = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const edge of edges) {
+      const [from, to] =
+        direction === "forward" ? [edge.from, edge.to] : [edge.to, edge.from];
+      if (from === nodeId && !reached.has(to)) {
+        reached.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Check a workflow definition
+ *
+ * Reports dangling type refs, edges and group boundaries that don't resolve
+ * to nodes, cycles, unreachable and dead-end nodes, edges whose (field
+ * extracted) source type isn't assignable to the target input type, and
+ * context keys that no enclosing group declares or that name an item of
+ * another type than their use expects.
+ */
+export function checkWorkflow(workflow: Workflow): WorkflowDiagnostic[] {
+  const typedefs = workflow.typedefs || {};
+  const diagnostics: WorkflowDiagnostic[] = [];
+
+  const report = (
+    severity: WorkflowDiagnostic["severity"],
+    code: WorkflowDiagnosticCode,
+    path: string,
+    message: string,
+    edgeIndex?: number
+  ) => {
+    diagnostics.push({
+      severity,
+      code,
+      path,
+      ...(edgeIndex !== undefined && { edgeIndex }),
+      message,
+    });
+  };
+
+  const checkRefs = (type: WorkflowNodeMessageType, path: string) => {
+    for (const ref of findDanglingRefs(type, typedefs)) {
+      report("error", "unknown-type-ref", path, `Unknown type reference: ${ref}`);
+    }
+  };
+
+  for (const [name, typedef] of Object.entries(typedefs)) {
+    for (const ref of findDanglingRefs(typedef, typedefs)) {
+      report(
+        "error",
+        "unknown-type-ref",
+        "",
+        `Unknown type reference in typedef ${name}: ${ref}`
+      );
+    }
+  }
+
+  const checkEdges = (group: WorkflowNodeGroup, path: string) => {
+    const nodeIds = new Set(Object.keys(group.nodes));
+    const isKnown = (nodeId: string) =>
+      nodeIds.has(nodeId) ||
+      nodeId === group.entryPoint ||
+      nodeId === group.exitPoint;
+
+    // Virtual entry and exit points carry the group input and output
+    const getOutputType = (nodeId: string) =>
+      group.nodes[nodeId]?.outputType ??
+      (nodeId === group.entryPoint ? group.inputType : undefined);
+    const getInputType = (nodeId: string) =>
+      group.nodes[nodeId]?.inputType ??
+      (nodeId === group.exitPoint ? group.outputType : undefined);
+
+    group.edges.forEach((edge, index) => {
+      for (const nodeId of [edge.from, edge.to]) {
+        if (!isKnown(nodeId)) {
+          report(
+            "error",
+            "unknown-node",
+            path,
+            `Edge ${edge.from} -> ${edge.to} references unknown node ${nodeId}`,
+            index
+          );
+        }
+      }
+
+      const sourceType = getOutputType(edge.from);
+      const targetType = getInputType(edge.to);
+      if (!sourceType || !targetType) return;
+
+      // A condition on the union itself narrows it to the matched variants
+      const tags =
+        edge.condition && (edge.condition.path ?? []).length === 0
+          ? edge.condition.match
+          : undefined;
+      const sourceField = edge.previousNodeMessageOutputFieldName;
+      const sourceTypes = getFieldTypes(
+        sourceType,
+        parseFieldPath(sourceField),
+        typedefs,
+        tags
+      );
+      if (!sourceTypes) {
+        report(
+          "error",
+          "unknown-field",
+          path,
+          `Output of ${edge.from} has no field ${sourceField}`,
+          index
+        );
+        return;
+      }
+
+      // Values of unnamed edges joining at a node are merged field by field
+      const joined =
+        !edge.messageInputFieldName &&
+        getIncomingEdges(group, edge.to).length > 1;
+      const targetField = edge.messageInputFieldName;
+
+      for (const source of sourceTypes) {
+        if (joined) {
+          const resolved = resolve(source, typedefs);
+          if (resolved && resolved.type !== "object") {
+            report(
+              "error",
+              "type-mismatch",
+              path,
+              `Edge ${edge.from} -> ${edge.to} joins a ${formatType(source)} value without messageInputFieldName`,
+              index
+            );
+            continue;
+          }
+          const fields = resolved?.type === "object" ? resolved.value : {};
+          for (const [name, field] of Object.entries(fields)) {
+            if (!field) continue;
+
+            const targets = getFieldTypes(targetType, [name], typedefs);
+            if (!targets) {
+              report(
+                "error",
+                "unknown-field",
+                path,
+                `Input of ${edge.to} has no field ${name}`,
+                index
+              );
+            } else if (!isAssignable(field.type, targets[0], typedefs)) {
+              report(
+                "error",
+                "type-mismatch",
+                path,
+                `Field ${name} of ${edge.from} is ${formatType(field.type)}, but ${edge.to} expects ${formatType(targets[0])}`,
+                index
+              );
+            }
+          }
+          continue;
+        }
+
+        const targets = getFieldTypes(
+          targetType,
+          parseFieldPath(targetField),
+          typedefs
+        );
+        if (!targets) {
+          report(
+            "error",
+            "unknown-field",
+            path,
+            `Input of ${edge.to} has no field ${targetField}`,
+            index
+          );
+          continue;
+        }
+        if (!isAssignable(source, targets[0], typedefs)) {
+          report(
+            "error",
+            "type-mismatch",
+            path,
+            `Edge ${edge.from} -> ${edge.to} passes ${formatType(source)}, but ${edge.to} expects ${formatType(targets[0])}`,
+            index
+          );
+        }
+      }
+    });
+  };
+
+  const checkGraph = (group: WorkflowNodeGroup, path: string) => {
+    const { entryPoint, exitPoint, edges } = group;
+
+    if (!group.nodes[entryPoint] && !edges.some((e) => e.from === entryPoint)) {
+      report(
+        "error",
+        "missing-entry-point",
+        path,
+        `Entry point ${entryPoint} is neither a node nor the source of an edge`
+      );
+    }
+    if (!group.nodes[exitPoint] && !edges.some((e) => e.to === exitPoint)) {
+      report(
+        "error",
+        "missing-exit-point",
+        path,
+        `Exit point ${exitPoint} is neither a node nor the target of an edge`
+      );
+    }
+
+    const fallbackNodeId =
+      group.onError?.fallback?.type === "node"
+        ? group.onError.fallback.nodeId
+        : undefined;
+    if (fallbackNodeId && !group.nodes[fallbackNodeId]) {
+      report(
+        "error",
+        "unknown-fallback-node",
+        path,
+        `Fallback node ${fallbackNodeId} is not a node of the group`
+      );
+    }
+
+    const cycleNodeId = findCycle(group);
+    if (cycleNodeId) {
+      report("error", "cycle", path, `Cycle detected at node ${cycleNodeId}`);
+    }
+
+    const reachable = collectReachable(edges, entryPoint, "forward");
+    const leadsToExit = collectReachable(edges, exitPoint, "backward");
+    for (const nodeId of Object.keys(group.nodes)) {
+      if (nodeId === fallbackNodeId) continue;
+
+      if (!reachable.has(nodeId)) {
+        report(
+          "warning",
+          "unreachable-node",
+          `${path}.${nodeId}`,
+          `Node ${nodeId} can't be reached from entry point ${entryPoint}`
+        );
+      } else if (!leadsToExit.has(nodeId)) {
+        report(
+          "warning",
+          "dead-end-node",
+          `${path}.${nodeId}`,
+          `Node ${nodeId} doesn't lead to exit point ${exitPoint}`
+        );
+      }
+    }
+  };
+
+  const checkContextKeys = (
+    keys: string[],
+    contextItems: ContextItems,
+    path: string,
+    expected?: ContextItemType[]
+  ) => {
+    for (const key of keys) {
+      const item = contextItems.get(key);
+      if (!item) {
+        report(
+          "error",
+          "undeclared-context-key",
+          path,
+          `Context key ${key} isn't declared by an enclosing group`
+        );
+      } else if (expected && !expected.includes(item.type)) {
+        report(
+          "error",
+          "wrong-context-item-type",
+          path,
+          `Context key ${key} is a ${item.type} item, expected ${expected.join(" or ")}`
+        );
+      }
+    }
+  };
+
+  const checkTransformContextKeys = (
+    fn: unknown,
+    contextItems: ContextItems,
+    path: string
+  ) => {
+    if (fn) {
+      checkContextKeys(getTransformContextKeys(fn), contextItems, path, [
+        "data",
+      ]);
+    }
+  };
+
+  // Operators of streamOperator items are applied with the stream node's
+  // context, each item checked once
+  const checkStreamOperators = (
+    operators: WorkflowStreamOperator[],
+    contextItems: ContextItems,
+    path: string,
+    seen: string[] = []
+  ) => {
+    for (const operator of operators) {
+      if (operator.type === "context") {
+        checkContextKeys([operator.key], contextItems, path, [
+          "streamOperator",
+        ]);
+        const item = contextItems.get(operator.key);
+        if (item?.type === "streamOperator" && !seen.includes(operator.key)) {
+          checkStreamOperators([item.operator], contextItems, path, [
+            ...seen,
+            operator.key,
+          ]);
+        }
+      } else if ("fn" in operator) {
+        checkTransformContextKeys(operator.fn, contextItems, path);
+      }
+    }
+  };
+
+  const checkNode = (
+    node: WorkflowNode,
+    path: string,
+    contextItems: ContextItems
+  ) => {
+    checkRefs(node.inputType, path);
+    checkRefs(node.outputType, path);
+
+    switch (node.type) {
+      case "generator":
+        checkContextKeys(node.contextAccess || [], contextItems, path);
+        return;
+
+      case "llm": {
+        const prompts = [
+          node.systemPrompt,
+          ...(node.reviewers || []).map((r) => r.systemPrompt),
+        ];
+        checkContextKeys(
+          prompts.flatMap(getPromptContextKeys),
+          contextItems,
+          path,
+          ["data"]
+        );
+
+        const tools = [
+          ...(node.availableTools || []),
+          ...(node.reviewers || []).flatMap((r) => r.availableTools || []),
+        ];
+        for (const tool of tools) {
+          if (tool.type === "custom") {
+            checkContextKeys(
+              getOverriddenInputContextKeys(tool.overridedInput),
+              contextItems,
+              path,
+              ["data"]
+            );
+          }
+        }
+        return;
+      }
+
+      case "transform":
+        checkTransformContextKeys(node.fn, contextItems, path);
+        return;
+
+      case "callWorkflow":
+        // References that aren't context keys are workflow IDs
+        if (contextItems.has(node.workflowRef)) {
+          checkContextKeys([node.workflowRef], contextItems, path, [
+            "nodeRef",
+            "workflowRef",
+          ]);
+        }
+        checkTransformContextKeys(node.inputMapping, contextItems, path);
+        checkTransformContextKeys(node.outputMapping, contextItems, path);
+        return;
+
+      case "stream":
+        checkStreamOperators(node.operators || [], contextItems, path);
+        return;
+    }
+
+    const groupContextItems = new Map(contextItems);
+    for (const [key, item] of Object.entries(node.context?.items || {})) {
+      groupContextItems.set(key, item);
+      if (item.type === "nodeRef" && !node.nodes[item.nodeId]) {
+        report(
+          "error",
+          "unknown-node",
+          path,
+          `Context item ${key} references unknown node ${item.nodeId}`
+        );
+      }
+    }
+
+    checkTransformContextKeys(node.loop?.condition, groupContextItems, path);
+    checkTransformContextKeys(node.loop?.nextInput, groupContextItems, path);
+    if (node.onError?.fallback?.type === "output") {
+      checkTransformContextKeys(
+        node.onError.fallback.fn,
+        groupContextItems,
+        path
+      );
+    }
+
+    checkGraph(node, path);
+    checkEdges(node, path);
+    for (const [nodeId, child] of Object.entries(node.nodes)) {
+      if (child) checkNode(child, `${path}.${nodeId}`, groupContextItems);
+    }
+  };
+
+  checkNode(workflow.root, "root", new Map());
+
+  return diagnostics;
+}
@@ -0,0 +1,92 @@
+/**
+ * Time source of time-based stream operators
+ *
+ * The engine uses the system clock by default. Tests pass a `FakeClock` to
+ * make debouncing and throttling deterministic.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+
+  /** Call `fn` after `ms` milliseconds, returning a handle to cancel it */
+  setTimeout(fn: () => void, ms: number): unknown;
+
+  /** Cancel a call scheduled with `setTimeout` */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by `Date.now` and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Clock whose time only moves when `advance` is called
+ */
+export class FakeClock implements Clock {
+  private time: number;
+  private timers = new Map<number, { at: number; fn: () => void }>();
+  private nextHandle = 1;
+
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + Math.max(0, ms), fn });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Move time forward by `ms` milliseconds
+   *
+   * Due timers fire in order, each at its scheduled time. Pending promise
+   * callbacks run before every timer and once time is reached, so the work
+   * timers trigger has settled when this resolves.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+
+    for (;;) {
+      await settlePendingCallbacks();
+
+      let due: [number, { at: number; fn: () => void }] | undefined;
+      for (const entry of this.timers) {
+        if (entry[1].at <= target && (!due || entry[1].at < due[1].at)) {
+          due = entry;
+        }
+      }
+      if (!due) {
+        break;
+      }
+
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].fn();
+    }
+
+    this.time = target;
+    await settlePendingCallbacks();
+  }
+}
+
+/**
+ * Wait until the promise callbacks queued so far have run
+ */
+function settlePendingCallbacks(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
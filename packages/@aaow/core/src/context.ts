@@ -0,0 +1,73 @@
+/**
+ * Workflow context references
+ *
+ * Groups declare context items that their nodes, and the nodes of nested
+ * groups, reference by key. An inner group's item shadows an outer group's
+ * item with the same key. `data` items are read by `context` transform
+ * functions and `{{key}}` placeholders in system prompts.
+ */
+
+type TransformFn = any; // Recursive type, using any for flexibility
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g;
+
+/**
+ * Get the value of a data item of an enclosing group's context
+ */
+export function getContextData(
+  key: string,
+  contextData: Record<string, unknown>
+): unknown {
+  if (!(key in contextData)) {
+    throw new Error(`Context key ${key} isn't a data item of an enclosing group`);
+  }
+  return contextData[key];
+}
+
+/**
+ * Replace the `{{key}}` placeholders of a prompt with context data
+ *
+ * Strings are inserted as is, other values as JSON.
+ */
+export function renderPrompt(
+  template: string,
+  contextData: Record<string, unknown>
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    const value = getContextData(key, contextData);
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * Context keys referenced by the placeholders of a prompt
+ */
+export function getPromptContextKeys(template: string | undefined): string[] {
+  return [...(template ?? "").matchAll(PLACEHOLDER_PATTERN)].map(
+    (match) => match[1]
+  );
+}
+
+/**
+ * Context keys read by a transform function and the functions it nests
+ */
+export function getTransformContextKeys(fn: TransformFn): string[] {
+  switch (fn?.type) {
+    case "context":
+      return [fn.key];
+
+    case "map":
+    case "with":
+      return getTransformContextKeys(fn.fn);
+
+    case "if":
+      return Object.values(fn.branches).flatMap(getTransformContextKeys);
+
+    case "object":
+    case "taggedUnion":
+      return Object.values(fn.value).flatMap(getTransformContextKeys);
+
+    default:
+      return [];
+  }
+}
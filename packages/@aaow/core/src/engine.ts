@@ -4,17 +4,219 @@ import type {
   WorkflowNodeGroup,
   WorkflowNodeLLM,
   WorkflowNodeTransform,
+  WorkflowCallBudget,
   WorkflowNodeCallWorkflow,
+  WorkflowNodeStream,
+  WorkflowNodeGenerator,
+  WorkflowStreamSource,
+  WorkflowStreamOperator,
+  WorkflowContextItem,
+  WorkflowEdge,
+  WorkflowNodeMessageType,
+  WorkflowTool,
   Session,
   StorageAdapter,
   NodeExecutionState,
   WorkflowExecutionState,
+  SessionLease,
   ToolRegistry,
   ApprovalRequest,
+  ApprovalType,
+  SessionStatus,
+  LLMExecutionResult,
+  PricingRegistry,
+  StreamSourceRegistry,
+  GeneratorRegistry,
 } from "@aaow/types";
-import { BudgetPoolManager } from "./budget";
+import { BudgetPoolManager, type BudgetReservation } from "./budget";
+import { systemClock, type Clock } from "./clock";
+import { renderPrompt } from "./context";
+import {
+  BudgetExhaustedError,
+  ChildNodeError,
+  WorkflowPausedError,
+  unwrapChildNodeError,
+} from "./errors";
 import { executeTransform } from "./executors/transform";
-import { executeLLM } from "./executors/llm";
+import { executeLLM, executeLLMWithSchema } from "./executors/llm";
+import {
+  REVIEWER_MAX_RETRIES,
+  buildReviewPrompt,
+  buildRevisionPrompt,
+  executeReview,
+} from "./executors/review";
+import {
+  createIntrinsicTool,
+  type IntrinsicToolContext,
+  type RetryCeiling,
+  type RetryIncreasePolicy,
+} from "./executors/intrinsic-tools";
+import {
+  StreamHub,
+  applyOperators,
+  drainStream,
+  fromAsyncIterable,
+  mergeStreams,
+  type Stream,
+} from "./executors/stream";
+import {
+  bindToolInput,
+  resolveOverriddenInput,
+} from "./executors/tool-binding";
+import {
+  buildNodeInput,
+  findCycle,
+  findReachableNodes,
+  getDescendantNode,
+  getIncomingEdges,
+  isEdgeTaken,
+} from "./graph";
+import { compileMessageType, resolveMessageType } from "./message-type";
+import {
+  DEFAULT_MAX_TOKENS,
+  computeCost,
+  estimateMaxUsage,
+} from "./pricing";
+import type { z } from "zod";
+
+/**
+ * Execution scope threaded through nested node executions
+ */
+interface NodeExecutionScope {
+  /** Session the node runs in */
+  sessionId: string;
+
+  /** Budget pool charged for LLM usage */
+  budgetPoolId?: string;
+
+  /** Aborted when the enclosing group stops its branches */
+  signal?: AbortSignal;
+
+  /** Node states persisted by a previous run, when resuming a session */
+  restored?: Record<string, NodeExecutionState>;
+
+  /** Type definitions of the running workflow */
+  typedefs?: Workflow["typedefs"];
+
+  /** Data items of the enclosing groups' contexts, inner groups shadow outer */
+  contextData?: Record<string, unknown>;
+
+  /** Items of the enclosing groups' contexts, inner groups shadow outer */
+  contextItems?: Record<string, ScopedContextItem>;
+
+  /** Node outputs of the session run, observed by stream nodes */
+  streams?: StreamHub;
+
+  /** Full ID of a sibling node in the enclosing group's current pass */
+  siblingId?: (childId: string) => string;
+
+  /** Nodes of the enclosing group */
+  siblings?: WorkflowNodeGroup["nodes"];
+}
+
+/**
+ * Context item visible to a node, with the group declaring it
+ */
+interface ScopedContextItem {
+  item: WorkflowContextItem;
+
+  /** Group whose nodes `nodeRef` items name */
+  group: WorkflowNodeGroup;
+
+  /** Full ID of the group */
+  groupId: string;
+}
+
+/**
+ * Position of a paused group, persisted in its node state metadata
+ */
+interface GroupCursor {
+  /** Loop iteration the group paused in */
+  iteration?: number;
+
+  /** Input of the paused iteration */
+  input: unknown;
+
+  /** Child nodes that completed, their outputs are in their node states */
+  completed: string[];
+
+  /** Child nodes skipped by conditional edges */
+  skipped: string[];
+
+  /** Inputs of child nodes waiting for approval */
+  pending: Record<string, unknown>;
+}
+
+/**
+ * Session and node statuses while waiting for each type of approval
+ */
+const APPROVAL_WAIT_STATUSES: Record<
+  ApprovalType,
+  { session: SessionStatus; node: NodeExecutionState["status"] }
+> = {
+  human_review: {
+    session: "waiting_for_human_review",
+    node: "waiting_for_review",
+  },
+  budget_increase: {
+    session: "waiting_for_budget_approval",
+    node: "waiting_for_approval",
+  },
+  workflow_call: {
+    session: "waiting_for_workflow_approval",
+    node: "waiting_for_approval",
+  },
+  retry_increase: {
+    session: "waiting_for_retry_approval",
+    node: "waiting_for_approval",
+  },
+};
+
+/**
+ * Result of running (or resuming) a workflow session
+ */
+export interface WorkflowRunResult {
+  sessionId: string;
+  output: unknown;
+  success: boolean;
+
+  /** Session status after the run, `completed` or a `waiting_for_*` status */
+  status: SessionStatus;
+
+  /** Approval request the session waits for when paused */
+  pendingApprovalId?: string;
+}
+
+/**
+ * What to do with a session abandoned by its worker
+ *
+ * - `resume`: continue from the node states persisted so far
+ * - `fail`: mark the session and its interrupted nodes as failed
+ */
+export type SessionRecoveryPolicy = "resume" | "fail";
+
+/**
+ * Outcome of recovering an abandoned session
+ */
+export interface RecoveredSession {
+  sessionId: string;
+  action: "resumed" | "failed";
+
+  /** Result of the resumed run */
+  result?: WorkflowRunResult;
+
+  /** Why the session failed */
+  error?: string;
+}
+
+/**
+ * How node inputs and outputs are checked against their declared types
+ *
+ * - `off`: no checks
+ * - `warn`: mismatches are only recorded on the node state
+ * - `strict`: mismatches fail the node
+ */
+export type MessageValidationMode = "off" | "warn" | "strict";
 
 export interface WorkflowEngineOptions {
   /** Storage adapter for persistence */
@@ -26,13 +228,42 @@ export interface WorkflowEngineOptions {
   /** Language model for LLM nodes */
   model?: any; // AI SDK's LanguageModel type
 
+  /** Model pricing, to compute the cost of LLM executions */
+  pricing?: PricingRegistry;
+
+  /** Cap on generated tokens per LLM call when the node sets none (default: 4096) */
+  defaultMaxTokens?: number;
+
   /** Budget pool ID for this execution */
   budgetPoolId?: string;
 
   /** Metadata for the session */
   metadata?: Record<string, unknown>;
+
+  /** Identifies this worker as the owner of session leases */
+  workerId?: string;
+
+  /** How long a session lease lasts without a heartbeat (default: 30s) */
+  leaseDurationMs?: number;
+
+  /** Validation of node inputs and outputs (default: off) */
+  messageValidation?: MessageValidationMode;
+
+  /** How LLM nodes' requests for more retries are granted */
+  retryIncreasePolicy?: RetryIncreasePolicy;
+
+  /** Time source of stream operators (default: system clock) */
+  clock?: Clock;
+
+  /** External sources of stream nodes, by `sourceFn` name */
+  streamSources?: StreamSourceRegistry;
+
+  /** Functions of generator nodes, by `generatorFn` name */
+  generators?: GeneratorRegistry;
 }
 
+const DEFAULT_LEASE_DURATION_MS = 30_000;
+
 /**
  * Workflow Engine
  *
@@ -43,23 +274,51 @@ export class WorkflowEngine {
   private storage: StorageAdapter;
   private tools: ToolRegistry;
   private model?: any;
+  private pricing: PricingRegistry;
+  private defaultMaxTokens: number;
+  private workerId: string;
+  private leaseDurationMs: number;
+  private messageValidation: MessageValidationMode;
+  private retryIncreasePolicy: RetryIncreasePolicy;
+  private clock: Clock;
+  private streamSources: StreamSourceRegistry;
+  private generators: GeneratorRegistry;
+  private messageSchemas = new WeakMap<WorkflowNodeMessageType, z.ZodTypeAny>();
 
   constructor(options: WorkflowEngineOptions) {
     this.storage = options.storage;
     this.budgetManager = new BudgetPoolManager(options.storage);
     this.tools = options.tools || {};
     this.model = options.model;
+    this.pricing = options.pricing || {};
+    this.defaultMaxTokens = options.defaultMaxTokens ?? DEFAULT_MAX_TOKENS;
+    this.workerId =
+      options.workerId ||
+      `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+    this.leaseDurationMs = options.leaseDurationMs ?? DEFAULT_LEASE_DURATION_MS;
+    this.messageValidation = options.messageValidation || "off";
+    this.retryIncreasePolicy = options.retryIncreasePolicy || {};
+    this.clock = options.clock || systemClock;
+    this.streamSources = options.streamSources || {};
+    this.generators = options.generators || {};
   }
 
   /**
    * Execute a workflow
+   *
+   * When a node waits for an approval, the session is paused instead of
+   * failed and can be continued with `resumeSession`.
    */
   async executeWorkflow(
     workflow: Workflow,
     workflowId: string,
     input: unknown,
-    options?: { sessionId?: string; budgetPoolId?: string }
-  ): Promise<{ sessionId: string; output: unknown; success: boolean }> {
+    options?: {
+      sessionId?: string;
+      budgetPoolId?: string;
+      parentSessionId?: string;
+    }
+  ): Promise<WorkflowRunResult> {
     // Create session
     const sessionId = options?.sessionId || `session-${Date.now()}`;
     const session: Session = {
@@ -69,7 +328,9 @@ export class WorkflowEngine {
       status: "running",
       createdAt: new Date(),
       updatedAt: new Date(),
-      metadata: {},
+      metadata: options?.parentSessionId
+        ? { parentSessionId: options.parentSessionId }
+        : {},
     };
 
     await this.storage.createSession(session);
@@ -85,14 +346,235 @@ export class WorkflowEngine {
 
     await this.storage.saveExecutionState(executionState);
 
+    return this.runSession(workflow, input, executionState, {
+      sessionId,
+      budgetPoolId: options?.budgetPoolId,
+    });
+  }
+
+  /**
+   * Resume a paused session
+   *
+   * Replays the session's workflow snapshot from its persisted execution
+   * state: completed nodes return their stored outputs instead of running
+   * again, and the paused node continues past its approval. When the
+   * approval was rejected, the paused node fails instead.
+   *
+   * The approval must be one a node of the session waits for, requested by
+   * the session or one of its sub-workflow sessions.
+   */
+  async resumeSession(
+    sessionId: string,
+    approvalId: string
+  ): Promise<WorkflowRunResult> {
+    const approval = await this.storage.getApprovalRequest(approvalId);
+    if (!approval) {
+      throw new Error(`Approval request ${approvalId} not found`);
+    }
+
+    if (
+      !(await this.isSessionOrDescendant(approval.sessionId, sessionId)) ||
+      !(await this.isWaitingFor(sessionId, approvalId))
+    ) {
+      throw new Error(
+        `Session ${sessionId} isn't waiting for approval request ${approvalId}`
+      );
+    }
+
+    if (approval.status !== "approved" && approval.status !== "rejected") {
+      throw new Error(`Approval request ${approvalId} is not approved`);
+    }
+
+    return this.continueSession(sessionId);
+  }
+
+  /**
+   * Whether a session is the given session or one of its sub-workflow
+   * sessions, at any depth
+   */
+  private async isSessionOrDescendant(
+    candidateId: string,
+    sessionId: string
+  ): Promise<boolean> {
+    for (let id: string | undefined = candidateId; id; ) {
+      if (id === sessionId) {
+        return true;
+      }
+      const session = await this.storage.getSession(id);
+      const parentSessionId = session?.metadata?.parentSessionId;
+      id = typeof parentSessionId === "string" ? parentSessionId : undefined;
+    }
+    return false;
+  }
+
+  /**
+   * Whether a node of a session is paused on an approval request
+   */
+  private async isWaitingFor(
+    sessionId: string,
+    approvalId: string
+  ): Promise<boolean> {
+    const executionState = await this.storage.getExecutionState(sessionId);
+    const waitingStatuses = Object.values(APPROVAL_WAIT_STATUSES).map(
+      (statuses) => statuses.node
+    );
+    return Object.values(executionState?.nodeStates ?? {}).some(
+      (nodeState) =>
+        nodeState.pendingApprovalId === approvalId &&
+        waitingStatuses.includes(nodeState.status)
+    );
+  }
+
+  /**
+   * Recover sessions abandoned by a worker that stopped
+   *
+   * A session is abandoned when it is still `running` but its lease expired
+   * without a heartbeat. Sub-workflow sessions are recovered through their
+   * parent session when resuming. Sessions whose lease another worker claims
+   * first are left to that worker.
+   */
+  async recoverSessions(options?: {
+    policy?: SessionRecoveryPolicy;
+  }): Promise<RecoveredSession[]> {
+    const policy = options?.policy ?? "resume";
+    const sessions = await this.storage.listSessions({
+      where: { status: "running" },
+    });
+
+    const recovered: RecoveredSession[] = [];
+    const now = new Date();
+    for (const session of sessions) {
+      if (policy === "resume" && session.metadata?.parentSessionId) {
+        continue;
+      }
+
+      const executionState = await this.storage.getExecutionState(session.id);
+      if (
+        !executionState ||
+        (executionState.leaseExpiresAt && executionState.leaseExpiresAt > now)
+      ) {
+        continue;
+      }
+
+      if (!(await this.renewLease(executionState))) {
+        continue;
+      }
+
+      if (policy === "fail") {
+        await this.failAbandonedSession(executionState);
+        recovered.push({
+          sessionId: session.id,
+          action: "failed",
+          error: "Session was abandoned by its worker",
+        });
+        continue;
+      }
+
+      try {
+        const result = await this.continueSession(session.id);
+        recovered.push({ sessionId: session.id, action: "resumed", result });
+      } catch (error) {
+        recovered.push({
+          sessionId: session.id,
+          action: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Mark an abandoned session and its interrupted nodes as failed
+   */
+  private async failAbandonedSession(
+    executionState: WorkflowExecutionState
+  ): Promise<void> {
+    const { sessionId, nodeStates, ...state } = executionState;
+
+    for (const nodeState of Object.values(nodeStates)) {
+      if (nodeState.status === "running") {
+        await this.storage.updateNodeState(sessionId, nodeState.nodeId, {
+          ...nodeState,
+          status: "failed",
+          error: "Session was abandoned by its worker",
+          completedAt: new Date(),
+        });
+      }
+    }
+
+    await this.storage.updateSession(sessionId, {
+      status: "failed",
+      updatedAt: new Date(),
+    });
+
+    await this.storage.saveExecutionState({
+      ...state,
+      sessionId,
+      status: "failed",
+      completedAt: new Date(),
+      nodeStates: {},
+    });
+  }
+
+  /**
+   * Continue a paused or abandoned session from its persisted execution state
+   */
+  private async continueSession(sessionId: string): Promise<WorkflowRunResult> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const executionState = await this.storage.getExecutionState(sessionId);
+    if (!executionState) {
+      throw new Error(`Execution state for session ${sessionId} not found`);
+    }
+
+    if (session.status === "completed" || session.status === "failed") {
+      throw new Error(`Session ${sessionId} is already ${session.status}`);
+    }
+
+    await this.storage.updateSession(sessionId, {
+      status: "running",
+      updatedAt: new Date(),
+    });
+
+    const { nodeStates, ...state } = executionState;
+    return this.runSession(
+      session.workflowSnapshot,
+      nodeStates.root?.input,
+      { ...state, status: "running", nodeStates: {} },
+      {
+        sessionId,
+        budgetPoolId: executionState.budgetPoolId,
+        restored: nodeStates,
+      }
+    );
+  }
+
+  /**
+   * Run the root group of a session and record the outcome
+   */
+  private async runSession(
+    workflow: Workflow,
+    input: unknown,
+    executionState: WorkflowExecutionState,
+    scope: NodeExecutionScope
+  ): Promise<WorkflowRunResult> {
+    const { sessionId } = scope;
+    const streams = new StreamHub();
+    scope = { ...scope, typedefs: workflow.typedefs, streams };
+
+    if (!(await this.renewLease(executionState))) {
+      throw new Error(`Session ${sessionId} is leased by another worker`);
+    }
+
     try {
       // Execute root group node
-      const output = await this.executeNode(
-        workflow.root,
-        "root",
-        input,
-        sessionId,
-        options?.budgetPoolId
+      const output = await this.holdLease(executionState, () =>
+        this.executeNode(workflow.root, "root", input, scope)
       );
 
       // Update session status
@@ -105,11 +587,33 @@ export class WorkflowEngine {
       await this.storage.saveExecutionState({
         ...executionState,
         status: "completed",
+        currentNodeId: undefined,
         completedAt: new Date(),
       });
 
-      return { sessionId, output, success: true };
+      return { sessionId, output, success: true, status: "completed" };
     } catch (error) {
+      if (error instanceof WorkflowPausedError) {
+        await this.storage.updateSession(sessionId, {
+          status: error.sessionStatus,
+          updatedAt: new Date(),
+        });
+
+        await this.storage.saveExecutionState({
+          ...executionState,
+          status: error.sessionStatus,
+          currentNodeId: error.nodeId,
+        });
+
+        return {
+          sessionId,
+          output: undefined,
+          success: false,
+          status: error.sessionStatus,
+          pendingApprovalId: error.approvalId,
+        };
+      }
+
       // Update session status on error
       await this.storage.updateSession(sessionId, {
         status: "failed",
@@ -123,8 +627,74 @@ export class WorkflowEngine {
         completedAt: new Date(),
       });
 
-      throw error;
+      throw unwrapChildNodeError(error);
+    } finally {
+      streams.close(new Error(`Session ${sessionId} ended`));
+    }
+  }
+
+  /**
+   * Hold the session lease while the session runs
+   *
+   * The lease is renewed every third of its duration, so `recoverSessions`
+   * can tell a session whose worker stopped from one that is still running.
+   * Renewals stop once another worker claimed the lease.
+   */
+  private async holdLease<T>(
+    executionState: WorkflowExecutionState,
+    run: () => Promise<T>
+  ): Promise<T> {
+    let renewal = Promise.resolve();
+
+    const timer = setInterval(() => {
+      // A failed heartbeat is retried on the next tick
+      renewal = renewal
+        .then(async () => {
+          if (!(await this.renewLease(executionState))) {
+            clearInterval(timer);
+          }
+        })
+        .catch(() => undefined);
+    }, this.leaseDurationMs / 3);
+
+    try {
+      return await run();
+    } finally {
+      clearInterval(timer);
+      // Don't let a late heartbeat overwrite the final execution state
+      await renewal;
+    }
+  }
+
+  /**
+   * Record a heartbeat and extend the session lease
+   *
+   * The lease is only claimed while it is still the one last read into the
+   * execution state, so two workers can't both take over a session.
+   *
+   * @returns Whether this worker holds the lease
+   */
+  private async renewLease(
+    executionState: WorkflowExecutionState
+  ): Promise<boolean> {
+    const now = new Date();
+    const lease: SessionLease = {
+      leaseOwner: this.workerId,
+      heartbeatAt: now,
+      leaseExpiresAt: new Date(now.getTime() + this.leaseDurationMs),
+    };
+    const claimed = await this.storage.claimSessionLease(
+      executionState.sessionId,
+      lease,
+      {
+        leaseOwner: executionState.leaseOwner,
+        leaseExpiresAt: executionState.leaseExpiresAt,
+      }
+    );
+    if (claimed) {
+      Object.assign(executionState, lease);
     }
+    return claimed;
   }
 
   /**
@@ -134,44 +704,47 @@ export class WorkflowEngine {
     node: WorkflowNode,
     nodeId: string,
     input: unknown,
-    sessionId: string,
-    budgetPoolId?: string
+    scope: NodeExecutionScope
   ): Promise<unknown> {
+    // Reuse the output of a node completed before the session was paused
+    const restored = scope.restored?.[nodeId];
+    if (restored?.status === "completed") {
+      await this.republishRestoredNode(node, nodeId, scope);
+      return restored.output;
+    }
+
     // Update node state to running
     const nodeState: NodeExecutionState = {
       nodeId,
       status: "running",
       input,
-      startedAt: new Date(),
+      startedAt: restored?.startedAt || new Date(),
     };
-    await this.storage.updateNodeState(sessionId, nodeId, nodeState);
+    await this.storage.updateNodeState(scope.sessionId, nodeId, nodeState);
 
+    const validationWarnings: string[] = [];
     try {
       let output: unknown;
 
+      this.validateMessage(
+        node.inputType,
+        input,
+        `input of node ${nodeId}`,
+        scope,
+        validationWarnings
+      );
+
       switch (node.type) {
         case "group":
-          output = await this.executeGroupNode(
-            node,
-            nodeId,
-            input,
-            sessionId,
-            budgetPoolId
-          );
+          output = await this.executeGroupNode(node, nodeId, input, scope);
           break;
 
         case "llm":
-          output = await this.executeLLMNode(
-            node,
-            nodeId,
-            input,
-            sessionId,
-            budgetPoolId
-          );
+          output = await this.executeLLMNode(node, nodeId, input, scope);
           break;
 
         case "transform":
-          output = await this.executeTransformNode(node, input);
+          output = await this.executeTransformNode(node, input, scope);
           break;
 
         case "callWorkflow":
@@ -179,33 +752,62 @@ export class WorkflowEngine {
             node,
             nodeId,
             input,
-            sessionId,
-            budgetPoolId
+            scope
           );
           break;
 
         case "stream":
+          output = await this.executeStreamNode(node, nodeId, input, scope);
+          break;
+
         case "generator":
-          throw new Error(
-            `Node type ${node.type} is not yet implemented`
-          );
+          output = await this.executeGeneratorNode(node, nodeId, input, scope);
+          break;
 
         default:
           throw new Error(`Unknown node type: ${(node as any).type}`);
       }
 
+      this.validateMessage(
+        node.outputType,
+        output,
+        `output of node ${nodeId}`,
+        scope,
+        validationWarnings
+      );
+
       // Update node state to completed
-      await this.storage.updateNodeState(sessionId, nodeId, {
+      await this.storage.updateNodeState(scope.sessionId, nodeId, {
         ...nodeState,
         status: "completed",
         output,
         completedAt: new Date(),
+        metadata:
+          validationWarnings.length > 0 ? { validationWarnings } : undefined,
       });
 
+      // Generators publish the values they yield instead
+      if (node.type !== "generator") {
+        scope.streams?.publish(nodeId, output);
+      }
+      scope.streams?.settle(nodeId);
       return output;
     } catch (error) {
+      scope.streams?.settle(nodeId, error);
+
+      if (error instanceof WorkflowPausedError) {
+        await this.storage.updateNodeState(scope.sessionId, nodeId, {
+          ...nodeState,
+          status: error.nodeStatus,
+          pendingApprovalId: error.approvalId,
+          metadata: error.checkpoints[nodeId],
+        });
+
+        throw error;
+      }
+
       // Update node state to failed
-      await this.storage.updateNodeState(sessionId, nodeId, {
+      await this.storage.updateNodeState(scope.sessionId, nodeId, {
         ...nodeState,
         status: "failed",
         error: error instanceof Error ? error.message : String(error),
@@ -217,146 +819,1011 @@ export class WorkflowEngine {
   }
 
   /**
-   * Execute a group node
+   * Publish the stored outputs of a node completed before the session was
+   * paused, and of its children, for the streams observing them
+   *
+   * Generators replay the values they yielded from their stream events.
    */
-  private async executeGroupNode(
-    node: WorkflowNodeGroup,
+  private async republishRestoredNode(
+    node: WorkflowNode,
     nodeId: string,
-    input: unknown,
-    sessionId: string,
-    budgetPoolId?: string
-  ): Promise<unknown> {
-    // Start from entry point
-    let currentNodeId = node.entryPoint;
-    let currentInput = input;
-
-    const executedNodes = new Set<string>();
-
-    while (currentNodeId !== node.exitPoint) {
-      if (executedNodes.has(currentNodeId)) {
-        throw new Error(`Cycle detected at node ${currentNodeId}`);
+    scope: NodeExecutionScope
+  ): Promise<void> {
+    for (const state of Object.values(scope.restored || {})) {
+      if (
+        state.status !== "completed" ||
+        (state.nodeId !== nodeId && !state.nodeId.startsWith(`${nodeId}.`))
+      ) {
+        continue;
       }
-      executedNodes.add(currentNodeId);
 
-      const currentNode = node.nodes[currentNodeId];
-      if (!currentNode) {
-        throw new Error(`Node ${currentNodeId} not found in group ${nodeId}`);
-      }
-
-      // Execute current node
-      const output = await this.executeNode(
-        currentNode,
-        `${nodeId}.${currentNodeId}`,
-        currentInput,
-        sessionId,
-        budgetPoolId
+      const definition = getDescendantNode(
+        node,
+        state.nodeId.slice(nodeId.length + 1)
       );
-
-      // Find next edge
-      const nextEdge = node.edges.find((e) => e.from === currentNodeId);
-      if (!nextEdge) {
-        throw new Error(`No outgoing edge found for node ${currentNodeId}`);
+      if (definition?.type !== "generator") {
+        scope.streams?.publish(state.nodeId, state.output);
+        continue;
       }
 
-      // Extract output based on edge configuration
-      if (nextEdge.previousNodeMessageOutputFieldName && typeof output === "object" && output !== null) {
-        currentInput = (output as any)[nextEdge.previousNodeMessageOutputFieldName];
-      } else {
-        currentInput = output;
+      const events =
+        (await this.storage.getStreamEvents?.(
+          `${scope.sessionId}:${state.nodeId}`
+        )) || [];
+      for (const event of events) {
+        scope.streams?.publish(state.nodeId, event.data);
       }
+    }
+    scope.streams?.settle(nodeId);
+  }
+
+  /**
+   * Check a node input or output against its declared message type
+   *
+   * Throws in strict mode; in warn mode the mismatch is added to `warnings`,
+   * which end up in the node state's metadata.
+   */
+  private validateMessage(
+    type: WorkflowNodeMessageType,
+    value: unknown,
+    label: string,
+    scope: NodeExecutionScope,
+    warnings: string[]
+  ): void {
+    if (this.messageValidation === "off") {
+      return;
+    }
+
+    let schema = this.messageSchemas.get(type);
+    if (!schema) {
+      schema = compileMessageType(type, scope.typedefs);
+      this.messageSchemas.set(type, schema);
+    }
 
-      currentNodeId = nextEdge.to;
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return;
     }
 
-    return currentInput;
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    const message = `Invalid ${label}: ${issues}`;
+
+    if (this.messageValidation === "strict") {
+      throw new Error(message);
+    }
+    warnings.push(message);
   }
 
   /**
-   * Execute an LLM node
+   * Execute a group node
+   *
+   * A group with an `onError` handler catches failures of its child nodes:
+   * the whole group is retried up to `retries` times, then the fallback node
+   * or output is used instead of failing.
    */
-  private async executeLLMNode(
-    node: WorkflowNodeLLM,
+  private async executeGroupNode(
+    node: WorkflowNodeGroup,
     nodeId: string,
     input: unknown,
-    sessionId: string,
-    budgetPoolId?: string
+    scope: NodeExecutionScope
   ): Promise<unknown> {
-    if (!this.model) {
-      throw new Error("No language model configured for LLM node execution");
+    const cycleNodeId = findCycle(node);
+    if (cycleNodeId) {
+      throw new Error(`Cycle detected at node ${cycleNodeId}`);
     }
 
-    // Check if human review is required
-    if (node.requiresHumanReview) {
-      const approvalId = `approval-${sessionId}-${nodeId}-${Date.now()}`;
-      const approvalRequest: ApprovalRequest = {
-        id: approvalId,
-        sessionId,
-        nodeId,
-        type: "human_review",
-        status: "pending",
-        context: {
-          description: "Human review required for LLM node",
-          llmOutput: input,
-        },
-        createdAt: new Date(),
-      };
-
-      await this.storage.createApprovalRequest(approvalRequest);
-
-      // Update session status
-      await this.storage.updateSession(sessionId, {
-        status: "waiting_for_human_review",
-      });
+    const contextData = { ...scope.contextData };
+    const contextItems = { ...scope.contextItems };
+    for (const [key, item] of Object.entries(node.context?.items || {})) {
+      if (item.type === "data") {
+        contextData[key] = item.value;
+      }
+      contextItems[key] = { item, group: node, groupId: nodeId };
+    }
+    scope = { ...scope, contextData, contextItems };
 
-      throw new Error(
-        `Human review required. Approval request: ${approvalId}`
-      );
+    if (!node.onError) {
+      return this.executeGroupLoop(node, nodeId, input, scope);
     }
 
-    // Build tools from available tools
-    const nodeTools: ToolRegistry = {};
-    if (node.availableTools) {
-      for (const tool of node.availableTools) {
-        if (tool.type === "custom") {
-          const toolDef = this.tools[tool.name];
-          if (toolDef) {
-            nodeTools[tool.name] = toolDef;
-          }
+    const attempts = (node.onError.retries ?? 0) + 1;
+    let attemptScope = scope;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.executeGroupLoop(node, nodeId, input, attemptScope);
+      } catch (error) {
+        // Only child failures are caught, aborts from outside propagate
+        if (!(error instanceof ChildNodeError) || scope.signal?.aborted) {
+          throw error;
         }
-      }
-    }
 
-    // Execute LLM
-    const result = await executeLLM(input, {
-      model: this.model,
-      systemPrompt: node.systemPrompt,
-      tools: nodeTools,
-      maxRetries: node.maxRetries,
+        if (attempt < attempts) {
+          // Retries start over instead of reusing restored node states
+          attemptScope = { ...scope, restored: undefined };
+          scope.streams?.reset(`${nodeId}.`);
+          continue;
+        }
+
+        const fallback = node.onError.fallback;
+        if (!fallback) {
+          throw error;
+        }
+
+        const handlerInput = {
+          input,
+          error: { nodeId: error.nodeId, message: error.message },
+        };
+
+        if (fallback.type === "output") {
+          return executeTransform(
+            fallback.fn,
+            handlerInput,
+            [],
+            scope.contextData
+          );
+        }
+
+        const fallbackNode = node.nodes[fallback.nodeId];
+        if (!fallbackNode) {
+          throw new Error(
+            `Fallback node ${fallback.nodeId} not found in group ${nodeId}`
+          );
+        }
+
+        try {
+          return await this.executeNode(
+            fallbackNode,
+            `${nodeId}.${fallback.nodeId}`,
+            handlerInput,
+            scope
+          );
+        } catch (fallbackError) {
+          if (fallbackError instanceof WorkflowPausedError) {
+            throw fallbackError;
+          }
+          throw new ChildNodeError(
+            `${nodeId}.${fallback.nodeId}`,
+            fallbackError
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute a group's graph, restarting it while its loop condition holds
+   *
+   * A group with a `loop` restarts from its entry point while the loop
+   * condition holds, up to `maxIterations`. Node states of each iteration are
+   * recorded separately as `group.node#<iteration>`.
+   */
+  private async executeGroupLoop(
+    node: WorkflowNodeGroup,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope
+  ): Promise<unknown> {
+    if (!node.loop) {
+      return this.executeGroupIteration(node, nodeId, input, scope);
+    }
+
+    // Resume from the iteration the group paused in
+    const cursor = scope.restored?.[nodeId]?.metadata?.cursor as
+      | GroupCursor
+      | undefined;
+    let iteration = cursor?.iteration ?? 1;
+    let iterationInput = cursor?.iteration ? cursor.input : input;
+
+    for (; ; iteration++) {
+      const output = await this.executeGroupIteration(
+        node,
+        nodeId,
+        iterationInput,
+        scope,
+        iteration
+      );
+
+      if (iteration >= node.loop.maxIterations) {
+        return output;
+      }
+
+      const loopState = { input: iterationInput, output, iteration };
+      const shouldContinue = await executeTransform(
+        node.loop.condition,
+        loopState,
+        [],
+        scope.contextData
+      );
+      if (shouldContinue !== true) {
+        return output;
+      }
+
+      iterationInput = node.loop.nextInput
+        ? await executeTransform(
+            node.loop.nextInput,
+            loopState,
+            [],
+            scope.contextData
+          )
+        : output;
+    }
+  }
+
+  /**
+   * Execute one pass over a group's graph
+   *
+   * Schedules child nodes as a DAG: every taken outgoing edge is followed, a
+   * node runs as soon as all of its predecessors have settled, and independent
+   * branches run concurrently. Nodes reached only through edges whose
+   * condition doesn't match are marked skipped.
+   *
+   * When a child waits for an approval, the remaining independent branches
+   * still run; the group then pauses and checkpoints its cursor so a resumed
+   * run picks up where it stopped.
+   */
+  private async executeGroupIteration(
+    node: WorkflowNodeGroup,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope,
+    iteration?: number
+  ): Promise<unknown> {
+    const childIdSuffix = iteration ? `#${iteration}` : "";
+    const outputs = new Map<string, unknown>();
+    const started = new Set<string>();
+    const skipped = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+    const paused = new Map<string, { error: WorkflowPausedError; input: unknown }>();
+    let failure: ChildNodeError | undefined;
+
+    // Siblings share a signal so a failing child can abort the others
+    const controller = new AbortController();
+    const abort = () => controller.abort(scope.signal?.reason);
+    scope.signal?.addEventListener("abort", abort);
+    const childScope: NodeExecutionScope = {
+      ...scope,
+      signal: controller.signal,
+      siblingId: (childId) => `${nodeId}.${childId}${childIdSuffix}`,
+      siblings: node.nodes,
+    };
+
+    // Stream nodes may consume endless sources, so they are also stopped
+    // when the pass can't complete
+    const streamController = new AbortController();
+    const abortStreams = () => streamController.abort(controller.signal.reason);
+    controller.signal.addEventListener("abort", abortStreams);
+    const streamScope: NodeExecutionScope = {
+      ...childScope,
+      signal: streamController.signal,
+    };
+
+    const run = (childId: string, childInput: unknown) => {
+      started.add(childId);
+
+      const childNode = node.nodes[childId];
+      const childNodeId = `${nodeId}.${childId}${childIdSuffix}`;
+      const promise = (async () => {
+        if (!childNode) {
+          // Virtual entry/exit points pass their input through
+          if (childId !== node.entryPoint && childId !== node.exitPoint) {
+            throw new Error(`Node ${childId} not found in group ${nodeId}`);
+          }
+          return childInput;
+        }
+
+        return this.executeNode(
+          childNode,
+          childNodeId,
+          childInput,
+          childNode.type === "stream" ? streamScope : childScope
+        );
+      })().then(
+        (output) => {
+          outputs.set(childId, output);
+          running.delete(childId);
+        },
+        (error) => {
+          if (error instanceof WorkflowPausedError) {
+            paused.set(childId, { error, input: childInput });
+          } else if (!failure) {
+            failure = new ChildNodeError(childNodeId, error);
+            if (node.onError?.abortSiblings) {
+              controller.abort(failure);
+            }
+          }
+          running.delete(childId);
+        }
+      );
+
+      running.set(childId, promise);
+    };
+
+    const schedule = async () => {
+      const resolved = this.resolveReadyNodes(node, outputs, started, skipped);
+
+      for (const skippedId of resolved.skipped) {
+        if (node.nodes[skippedId]) {
+          const skippedNodeId = `${nodeId}.${skippedId}${childIdSuffix}`;
+          await this.storage.updateNodeState(scope.sessionId, skippedNodeId, {
+            nodeId: skippedNodeId,
+            status: "skipped",
+          });
+          scope.streams?.settle(skippedNodeId);
+        }
+      }
+
+      for (const { nodeId: readyId, edges } of resolved.ready) {
+        run(readyId, buildNodeInput(edges, outputs));
+      }
+    };
+
+    // Settle the children that can no longer run in this pass, so stream
+    // nodes observing them don't hold the group open. Children downstream
+    // of a paused one pass its pause on to the streams, which are stopped
+    // once nothing else runs.
+    const releaseStreams = (error?: unknown) => {
+      const pause = [...paused.values()][0]?.error;
+      const reachable =
+        error === undefined ? findReachableNodes(node, running.keys()) : [];
+      for (const childId of Object.keys(node.nodes)) {
+        if (!started.has(childId) && !reachable.includes(childId)) {
+          scope.streams?.settle(
+            `${nodeId}.${childId}${childIdSuffix}`,
+            error ?? pause
+          );
+        }
+      }
+
+      const onlyStreamsRun = [...running.keys()].every(
+        (childId) => node.nodes[childId]?.type === "stream"
+      );
+      if (error !== undefined || (pause && onlyStreamsRun)) {
+        streamController.abort(error ?? pause);
+      }
+    };
+
+    try {
+      const cursor = scope.restored?.[nodeId]?.metadata?.cursor as
+        | GroupCursor
+        | undefined;
+
+      if (cursor && cursor.iteration === iteration) {
+        // Seed the scheduler from the checkpoint instead of the entry point
+        for (const childId of cursor.completed) {
+          outputs.set(
+            childId,
+            node.nodes[childId]
+              ? scope.restored?.[`${nodeId}.${childId}${childIdSuffix}`]?.output
+              : input
+          );
+          started.add(childId);
+        }
+        for (const childId of cursor.skipped) {
+          skipped.add(childId);
+        }
+        for (const [childId, childInput] of Object.entries(cursor.pending)) {
+          run(childId, childInput);
+        }
+        await schedule();
+      } else {
+        run(node.entryPoint, input);
+      }
+
+      while (running.size > 0) {
+        await Promise.race(running.values());
+
+        if (failure || controller.signal.aborted) {
+          // Let in-flight branches settle before propagating the failure
+          releaseStreams(failure || controller.signal.reason);
+          await Promise.all(running.values());
+          throw failure || controller.signal.reason;
+        }
+
+        await schedule();
+        releaseStreams();
+      }
+    } finally {
+      scope.signal?.removeEventListener("abort", abort);
+      controller.signal.removeEventListener("abort", abortStreams);
+    }
+
+    if (paused.size > 0) {
+      const [first, ...others] = [...paused.values()].map((p) => p.error);
+      for (const other of others) {
+        Object.assign(first.checkpoints, other.checkpoints);
+      }
+
+      const cursor: GroupCursor = {
+        iteration,
+        input,
+        completed: [...outputs.keys()],
+        skipped: [...skipped],
+        pending: Object.fromEntries(
+          [...paused.entries()].map(([childId, p]) => [childId, p.input])
+        ),
+      };
+      first.checkpoints[nodeId] = { cursor };
+
+      throw first;
+    }
+
+    if (!outputs.has(node.exitPoint)) {
+      throw new Error(
+        `Exit point ${node.exitPoint} was not reached in group ${nodeId}`
+      );
+    }
+
+    return outputs.get(node.exitPoint);
+  }
+
+  /**
+   * Find nodes whose predecessors have all completed or been skipped
+   *
+   * A node with at least one taken incoming edge is ready and receives the
+   * values of its taken edges. A node with none is skipped, which in turn
+   * settles its own outgoing edges.
+   */
+  private resolveReadyNodes(
+    node: WorkflowNodeGroup,
+    outputs: Map<string, unknown>,
+    started: Set<string>,
+    skipped: Set<string>
+  ): {
+    ready: { nodeId: string; edges: WorkflowEdge[] }[];
+    skipped: string[];
+  } {
+    const ready: { nodeId: string; edges: WorkflowEdge[] }[] = [];
+    const newlySkipped: string[] = [];
+    const targets = new Set(node.edges.map((e) => e.to));
+
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+
+      for (const candidateId of targets) {
+        if (started.has(candidateId) || skipped.has(candidateId)) continue;
+        if (ready.some((r) => r.nodeId === candidateId)) continue;
+
+        const incoming = getIncomingEdges(node, candidateId);
+        const settled = incoming.every(
+          (e) => outputs.has(e.from) || skipped.has(e.from)
+        );
+        if (!settled) continue;
+
+        const taken = incoming.filter(
+          (e) => outputs.has(e.from) && isEdgeTaken(e, outputs.get(e.from))
+        );
+
+        if (taken.length > 0) {
+          ready.push({ nodeId: candidateId, edges: taken });
+        } else {
+          skipped.add(candidateId);
+          newlySkipped.push(candidateId);
+          progressed = true;
+        }
+      }
+    }
+
+    return { ready, skipped: newlySkipped };
+  }
+
+  /**
+   * Execute an LLM node
+   *
+   * When the node has reviewers, each of them approves or rejects the
+   * generated output. Rejections trigger a regeneration with the reviewers'
+   * feedback, which counts against `maxRetries`, and so do failed
+   * generations. A node that asked for more retries pauses for that approval
+   * once it runs out of them.
+   */
+  private async executeLLMNode(
+    node: WorkflowNodeLLM,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope
+  ): Promise<unknown> {
+    if (!this.model) {
+      throw new Error("No language model configured for LLM node execution");
+    }
+
+    const retries: RetryCeiling = {
+      retriesLeft: node.maxRetries,
+      autoGranted: 0,
+    };
+    let prompt = input;
+
+    const restored = scope.restored?.[nodeId];
+    const approval = restored?.pendingApprovalId
+      ? await this.storage.getApprovalRequest(restored.pendingApprovalId)
+      : null;
+    if (approval?.type === "retry_increase") {
+      // Continue where the node ran out of retries, with the granted ones
+      await this.requireApproval(
+        nodeId,
+        scope,
+        "retry_increase",
+        approval.context
+      );
+      retries.retriesLeft = approval.context.requestedRetries ?? 0;
+      prompt = restored?.metadata?.prompt ?? input;
+    } else if (approval?.type === "budget_increase") {
+      // Continue where the node ran out of budget, once it was increased
+      await this.requireApproval(
+        nodeId,
+        scope,
+        "budget_increase",
+        approval.context
+      );
+      retries.retriesLeft =
+        (restored?.metadata?.retriesLeft as number | undefined) ??
+        node.maxRetries;
+      prompt = restored?.metadata?.prompt ?? input;
+    } else if (node.requiresHumanReview) {
+      // Check if human review is required
+      await this.requireApproval(nodeId, scope, "human_review", {
+        description: "Human review required for LLM node",
+        llmOutput: input,
+      });
+    }
+
+    const intrinsics: IntrinsicToolContext = {
       storage: this.storage,
-      sessionId,
+      sessionId: scope.sessionId,
       nodeId,
-    });
+      retries,
+      retryIncreasePolicy: this.retryIncreasePolicy,
+    };
+    const tools = this.resolveTools(
+      node.availableTools,
+      intrinsics,
+      scope.contextData
+    );
 
-    // Save LLM execution result
-    await this.storage.saveLLMExecution(sessionId, nodeId, {
-      id: `llm-${sessionId}-${nodeId}-${Date.now()}`,
-      timestamp: new Date(),
-      ...result,
-    });
+    // Regenerate with the reviewers' feedback until they all approve
+    for (let round = 0; ; round++) {
+      let generated: { output: unknown; attempts: number; error?: string };
+      try {
+        generated = await this.generateLLMOutput(
+          node,
+          nodeId,
+          prompt,
+          tools,
+          retries.retriesLeft,
+          round,
+          scope
+        );
+      } catch (error) {
+        if (error instanceof BudgetExhaustedError) {
+          await this.pauseForBudgetIncrease(nodeId, scope, error, {
+            prompt,
+            retriesLeft: retries.retriesLeft,
+          });
+        }
+        if (!scope.signal?.aborted) {
+          this.pauseForRetryIncrease(nodeId, retries, prompt);
+        }
+        throw error;
+      }
+      const { output, attempts, error } = generated;
+      retries.retriesLeft -= attempts - 1;
+
+      if (error !== undefined) {
+        if (retries.retriesLeft <= 0) {
+          this.pauseForRetryIncrease(nodeId, retries, prompt);
+          throw new Error(error);
+        }
+        retries.retriesLeft--;
+        continue;
+      }
+
+      let feedback: string[];
+      try {
+        feedback = await this.reviewLLMOutput(
+          node,
+          nodeId,
+          input,
+          output,
+          round,
+          scope,
+          intrinsics
+        );
+      } catch (error) {
+        if (error instanceof BudgetExhaustedError) {
+          // The output is generated again once the budget is increased
+          await this.pauseForBudgetIncrease(nodeId, scope, error, {
+            prompt,
+            retriesLeft: retries.retriesLeft,
+          });
+        }
+        throw error;
+      }
+      if (feedback.length === 0) {
+        // The node made it without the retries it asked for
+        if (retries.pendingApprovalId) {
+          await this.storage.updateApprovalRequest(retries.pendingApprovalId, {
+            status: "expired",
+            resolvedAt: new Date(),
+          });
+        }
+        return output;
+      }
+
+      const revisionPrompt = buildRevisionPrompt(input, output, feedback);
+      if (retries.retriesLeft <= 0) {
+        this.pauseForRetryIncrease(nodeId, retries, revisionPrompt);
+        throw new Error(
+          `Output of node ${nodeId} was rejected by its reviewers: ${feedback.join("; ")}`
+        );
+      }
+      retries.retriesLeft--;
+      prompt = revisionPrompt;
+    }
+  }
+
+  /**
+   * Pause an LLM node that ran out of retries while its request for more
+   * is pending, keeping the prompt it continues with
+   */
+  private pauseForRetryIncrease(
+    nodeId: string,
+    retries: RetryCeiling,
+    prompt: unknown
+  ): void {
+    if (!retries.pendingApprovalId) {
+      return;
+    }
+
+    const statuses = APPROVAL_WAIT_STATUSES.retry_increase;
+    const error = new WorkflowPausedError(
+      retries.pendingApprovalId,
+      nodeId,
+      statuses.session,
+      statuses.node
+    );
+    error.checkpoints[nodeId] = { prompt };
+    throw error;
+  }
+
+  /**
+   * Pause an LLM node whose budget pool ran out, asking for the budget it
+   * lacks, and keep the prompt and retries it continues with
+   *
+   * A called workflow with an independent budget asks for that pool instead.
+   */
+  private async pauseForBudgetIncrease(
+    nodeId: string,
+    scope: NodeExecutionScope,
+    error: BudgetExhaustedError,
+    checkpoint: { prompt: unknown; retriesLeft: number }
+  ): Promise<void> {
+    const sessionPool = scope.budgetPoolId
+      ? await this.budgetManager.getPool(scope.budgetPoolId)
+      : null;
+    const independentAmount = sessionPool?.metadata?.independentAmount;
+
+    const context: ApprovalRequest["context"] =
+      sessionPool && typeof independentAmount === "number"
+        ? {
+            description: `Budget pool ${error.pool.id} ran out of budget for node ${nodeId}, the called workflow continues in an independent pool once approved`,
+            requestedBudget: independentAmount,
+            currentUsage: sessionPool.usedBudget,
+            metadata: { budgetPoolId: sessionPool.id, independent: true },
+          }
+        : {
+            description: `Budget pool ${error.pool.id} ran out of budget for node ${nodeId}`,
+            requestedBudget: error.shortfall,
+            currentUsage: error.pool.usedBudget,
+            metadata: { budgetPoolId: error.pool.id },
+          };
 
-    // Consume budget if available
-    if (budgetPoolId && result.usage) {
-      await this.budgetManager.consumeBudget(
-        budgetPoolId,
-        result.usage.totalTokens
+    try {
+      // A new request, even when the node resumed from an earlier one
+      await this.requireApproval(
+        nodeId,
+        { ...scope, restored: undefined },
+        "budget_increase",
+        context
       );
+    } catch (pause) {
+      if (pause instanceof WorkflowPausedError) {
+        pause.checkpoints[nodeId] = checkpoint;
+      }
+      throw pause;
+    }
+  }
+
+  /**
+   * Resolve the tools an LLM node or reviewer may call
+   *
+   * Custom tools with an `overridedInput` get those arguments bound, with
+   * context references resolved against the enclosing groups' data items.
+   */
+  private resolveTools(
+    availableTools: WorkflowTool[] | undefined,
+    intrinsics: IntrinsicToolContext,
+    contextData: Record<string, unknown> = {}
+  ): ToolRegistry {
+    const tools: ToolRegistry = {};
+    for (const tool of availableTools || []) {
+      if (tool.type === "custom") {
+        const toolDef = this.tools[tool.name];
+        if (!toolDef) {
+          continue;
+        }
+        tools[tool.name] =
+          tool.overridedInput === undefined
+            ? toolDef
+            : bindToolInput(
+                tool.name,
+                toolDef,
+                resolveOverriddenInput(
+                  tool.name,
+                  tool.overridedInput,
+                  contextData
+                )
+              );
+      } else {
+        tools[tool.type] = createIntrinsicTool(tool.type, intrinsics);
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Fill the `{{key}}` placeholders of an LLM node or reviewer system prompt
+   * with the enclosing groups' data items
+   */
+  private renderSystemPrompt(
+    systemPrompt: string | undefined,
+    scope: NodeExecutionScope
+  ): string | undefined {
+    return systemPrompt === undefined
+      ? undefined
+      : renderPrompt(systemPrompt, scope.contextData || {});
+  }
+
+  /**
+   * Generate the output of an LLM node
+   *
+   * Generates structured output unless the node expects a string. Returns
+   * the number of attempts, as output that doesn't parse is retried, and the
+   * error of a failed generation.
+   */
+  private async generateLLMOutput(
+    node: WorkflowNodeLLM,
+    nodeId: string,
+    prompt: unknown,
+    tools: ToolRegistry,
+    maxRetries: number,
+    round: number,
+    scope: NodeExecutionScope
+  ): Promise<{ output: unknown; attempts: number; error?: string }> {
+    // Output that doesn't parse against the output type is generated again
+    const isText =
+      resolveMessageType(node.outputType, scope.typedefs).type === "string";
+    const options = {
+      model: this.model,
+      systemPrompt: this.renderSystemPrompt(node.systemPrompt, scope),
+      tools,
+      // Failed text generations are retried by the node, against its retries
+      maxRetries: isText ? 0 : maxRetries,
+      maxTokens: node.maxTokens ?? this.defaultMaxTokens,
+      storage: this.storage,
+      sessionId: scope.sessionId,
+      nodeId,
+      abortSignal: scope.signal,
+    };
+    const schema = isText
+      ? undefined
+      : compileMessageType(node.outputType, scope.typedefs);
+
+    const reservation = await this.reserveLLMBudget(
+      scope,
+      [options.systemPrompt, prompt],
+      options.maxTokens,
+      isText ? 1 : maxRetries + 1
+    );
+
+    let result: LLMExecutionResult;
+    let output: unknown;
+    try {
+      if (schema) {
+        const { data, ...rest } = await executeLLMWithSchema(
+          prompt,
+          schema,
+          options
+        );
+        result = rest;
+        output = data;
+      } else {
+        result = await executeLLM(prompt, options);
+        output = result.text;
+      }
+    } catch (error) {
+      await this.releaseReservation(reservation);
+      throw error;
     }
 
+    await this.recordLLMExecution(
+      nodeId,
+      scope,
+      result,
+      `${round}`,
+      reservation
+    );
+
+    const attempts = (result.metadata?.attempts as number | undefined) ?? 1;
     if (!result.success) {
-      throw new Error(result.error || "LLM execution failed");
+      return {
+        output: undefined,
+        attempts,
+        error: result.error || "LLM execution failed",
+      };
     }
+    return { output, attempts };
+  }
+
+  /**
+   * Run the reviewers of an LLM node on its output
+   *
+   * Returns the feedback of the reviewers that rejected the output, none
+   * when all of them approved it.
+   */
+  private async reviewLLMOutput(
+    node: WorkflowNodeLLM,
+    nodeId: string,
+    input: unknown,
+    output: unknown,
+    round: number,
+    scope: NodeExecutionScope,
+    intrinsics: IntrinsicToolContext
+  ): Promise<string[]> {
+    const verdicts = await Promise.all(
+      (node.reviewers || []).map(async (reviewer, index) => {
+        const maxTokens = node.maxTokens ?? this.defaultMaxTokens;
+        const systemPrompt = this.renderSystemPrompt(
+          reviewer.systemPrompt,
+          scope
+        );
+        const tools = this.resolveTools(
+          reviewer.availableTools,
+          intrinsics,
+          scope.contextData
+        );
+        const reservation = await this.reserveLLMBudget(
+          scope,
+          [systemPrompt, buildReviewPrompt(input, output)],
+          maxTokens,
+          REVIEWER_MAX_RETRIES + 1
+        );
+
+        let review: Awaited<ReturnType<typeof executeReview>>;
+        try {
+          review = await executeReview(input, output, {
+            model: this.model,
+            systemPrompt,
+            tools,
+            maxRetries: REVIEWER_MAX_RETRIES,
+            maxTokens,
+            storage: this.storage,
+            sessionId: scope.sessionId,
+            nodeId,
+            abortSignal: scope.signal,
+          });
+        } catch (error) {
+          await this.releaseReservation(reservation);
+          throw error;
+        }
+        const { verdict, ...result } = review;
 
-    return result.text;
+        await this.recordLLMExecution(
+          nodeId,
+          scope,
+          { ...result, metadata: { ...result.metadata, reviewer: index, verdict } },
+          `${round}-review-${index}`,
+          reservation
+        );
+
+        if (!result.success || !verdict) {
+          throw new Error(
+            `Reviewer ${index} of node ${nodeId} failed: ${result.error || "no verdict"}`
+          );
+        }
+        return verdict;
+      })
+    );
+
+    return verdicts.flatMap((verdict) =>
+      verdict.tag === "reject" ? [verdict.feedback] : []
+    );
+  }
+
+  /**
+   * Reserve the maximum an LLM call may cost on the budget pool
+   *
+   * Estimated from the size of the prompt and the cap on generated tokens,
+   * for each attempt the call may make.
+   */
+  private async reserveLLMBudget(
+    scope: NodeExecutionScope,
+    prompt: unknown[],
+    maxTokens: number,
+    attempts: number
+  ): Promise<BudgetReservation | undefined> {
+    if (!scope.budgetPoolId) {
+      return undefined;
+    }
+
+    const promptText = prompt
+      .filter((part) => part !== undefined)
+      .map((part) =>
+        typeof part === "string" ? part : JSON.stringify(part, null, 2)
+      )
+      .join("\n\n");
+    const usage = estimateMaxUsage(promptText, maxTokens, attempts);
+
+    return this.budgetManager.reserveExecution(scope.budgetPoolId, {
+      success: true,
+      usage,
+      cost: this.computeLLMCost(usage),
+    });
+  }
+
+  /**
+   * Compute the cost of token usage of the configured model, when priced
+   */
+  private computeLLMCost(
+    usage: LLMExecutionResult["usage"]
+  ): number | undefined {
+    const modelId: string | undefined = this.model?.modelId;
+    const pricing = modelId ? this.pricing[modelId] : undefined;
+    return pricing && usage ? computeCost(usage, pricing) : undefined;
+  }
+
+  /**
+   * Save an LLM call with its cost and settle its budget reservation
+   */
+  private async recordLLMExecution(
+    nodeId: string,
+    scope: NodeExecutionScope,
+    result: LLMExecutionResult,
+    callId: string,
+    reservation: BudgetReservation | undefined
+  ): Promise<void> {
+    const { sessionId } = scope;
+
+    const execution: LLMExecutionResult = {
+      ...result,
+      cost: this.computeLLMCost(result.usage),
+      metadata: { ...result.metadata, model: this.model?.modelId },
+    };
+
+    try {
+      await this.storage.saveLLMExecution(sessionId, nodeId, {
+        id: `llm-${sessionId}-${nodeId}-${Date.now()}-${callId}`,
+        timestamp: new Date(),
+        ...execution,
+      });
+    } finally {
+      // The call was made, so its usage is charged even when saving failed
+      if (reservation) {
+        await this.budgetManager.settleExecution(reservation, execution);
+      }
+    }
+  }
+
+  /**
+   * Release the reservation of an LLM call that failed before it could be
+   * recorded
+   */
+  private async releaseReservation(
+    reservation: BudgetReservation | undefined
+  ): Promise<void> {
+    if (reservation) {
+      await this.budgetManager.settleReservation(reservation, 0);
+    }
   }
 
   /**
@@ -364,97 +1831,569 @@ export class WorkflowEngine {
    */
   private async executeTransformNode(
     node: WorkflowNodeTransform,
-    input: unknown
+    input: unknown,
+    scope: NodeExecutionScope
   ): Promise<unknown> {
-    return executeTransform(node.fn, input);
+    return executeTransform(node.fn, input, [], scope.contextData);
   }
 
   /**
-   * Execute a callWorkflow node
+   * Execute a stream node
+   *
+   * Subscribes to the outputs of sibling nodes, or of nodes nested in
+   * sibling groups (`group.node`), and applies the node's operators. Each
+   * emitted item is saved as a stream event, and the node outputs the list
+   * of items once its sources complete. A source completes when the sibling
+   * it belongs to is done in the group's current pass.
    */
-  private async executeCallWorkflowNode(
-    node: WorkflowNodeCallWorkflow,
+  private async executeStreamNode(
+    node: WorkflowNodeStream,
     nodeId: string,
     input: unknown,
-    sessionId: string,
-    budgetPoolId?: string
+    scope: NodeExecutionScope
+  ): Promise<unknown[]> {
+    const resolve = (sourceId: string) =>
+      this.resolveStreamNode(sourceId, nodeId, scope);
+    const stream = applyOperators(
+      this.resolveStreamSource(node.source, resolve, (sourceFn) =>
+        this.resolveExternalStreamSource(sourceFn, nodeId, input, scope)
+      ),
+      node.operators || [],
+      {
+        clock: this.clock,
+        resolve,
+        contextData: scope.contextData,
+        resolveOperator: (key) =>
+          this.resolveContextStreamOperator(key, nodeId, scope),
+      }
+    );
+
+    const items: unknown[] = [];
+    await drainStream(
+      stream,
+      async (item) => {
+        items.push(item);
+        await this.saveStreamEvent(nodeId, items.length, item, scope);
+      },
+      scope.signal
+    );
+
+    return items;
+  }
+
+  /**
+   * Find the operator of a `streamOperator` context item used by a stream
+   * node, following items whose operator refers to another item
+   */
+  private resolveContextStreamOperator(
+    key: string,
+    nodeId: string,
+    scope: NodeExecutionScope
+  ): WorkflowStreamOperator {
+    const seen = new Set<string>();
+    for (;;) {
+      const scoped = scope.contextItems?.[key];
+      if (scoped?.item.type !== "streamOperator") {
+        throw new Error(
+          `Context key ${key} of stream node ${nodeId} isn't a streamOperator item of an enclosing group`
+        );
+      }
+      if (scoped.item.operator.type !== "context") {
+        return scoped.item.operator;
+      }
+
+      seen.add(key);
+      key = scoped.item.operator.key;
+      if (seen.has(key)) {
+        throw new Error(`Stream operator ${key} refers to itself`);
+      }
+    }
+  }
+
+  /**
+   * Save an item emitted by a stream or generator node
+   *
+   * Events are numbered from 1 in their stream, so a node that runs again
+   * after a pause overwrites the events of its previous run.
+   */
+  private async saveStreamEvent(
+    nodeId: string,
+    index: number,
+    data: unknown,
+    scope: NodeExecutionScope
+  ): Promise<void> {
+    const streamId = `${scope.sessionId}:${nodeId}`;
+    await this.storage.saveStreamEvent?.({
+      id: `${streamId}:${index}`,
+      streamId,
+      nodeId,
+      data,
+      timestamp: new Date(this.clock.now()),
+    });
+  }
+
+  /**
+   * Execute a generator node
+   *
+   * Runs the registered generator function with a handle to call nodes.
+   * Yielded values are saved as stream events and published to the streams
+   * observing the node, and the return value is the node output.
+   *
+   * Each call runs as a node of its own, `<generator>.<name>#<n>` for the
+   * n-th call of a name. A resumed session runs the generator again from
+   * the start, and calls completed before the pause return their stored
+   * outputs, so generators should only depend on their input and calls.
+   */
+  private async executeGeneratorNode(
+    node: WorkflowNodeGenerator,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope
   ): Promise<unknown> {
-    // Check if approval is required
-    if (node.requiresApproval) {
-      const approvalId = `approval-${sessionId}-${nodeId}-${Date.now()}`;
-      const approvalRequest: ApprovalRequest = {
-        id: approvalId,
-        sessionId,
+    const generator = this.generators[node.generatorFn];
+    if (!generator) {
+      throw new Error(`Generator ${node.generatorFn} not found`);
+    }
+
+    const accessible = new Set(node.contextAccess || []);
+    const context: Record<string, unknown> = {};
+    for (const key of accessible) {
+      const scoped = scope.contextItems?.[key];
+      if (scoped?.item.type === "data") {
+        context[key] = scoped.item.value;
+      }
+    }
+
+    const calls = new Map<string, number>();
+    const call = async (name: string, callInput: unknown) => {
+      const count = (calls.get(name) ?? 0) + 1;
+      calls.set(name, count);
+
+      const callee = await this.resolveGeneratorCall(
+        name,
+        accessible,
         nodeId,
-        type: "workflow_call",
-        status: "pending",
-        context: {
-          description: "Approval required for workflow call",
-          workflowRef: node.workflowRef,
-        },
-        createdAt: new Date(),
-      };
+        scope
+      );
+      return this.executeNode(
+        callee,
+        `${nodeId}.${name}#${count}`,
+        callInput,
+        scope
+      );
+    };
+
+    const iterator = generator({
+      sessionId: scope.sessionId,
+      nodeId,
+      input,
+      context,
+      call,
+      signal: scope.signal ?? new AbortController().signal,
+    });
 
-      await this.storage.createApprovalRequest(approvalRequest);
+    for (let index = 1; ; index++) {
+      if (scope.signal?.aborted) {
+        await iterator.return(undefined);
+        throw scope.signal.reason;
+      }
 
-      // Update session status
-      await this.storage.updateSession(sessionId, {
-        status: "waiting_for_workflow_approval",
-      });
+      const result = await iterator.next();
+      if (result.done) {
+        return result.value;
+      }
+
+      await this.saveStreamEvent(nodeId, index, result.value, scope);
+      scope.streams?.publish(nodeId, result.value);
+    }
+  }
+
+  /**
+   * Find the node a generator calls by name
+   *
+   * `nodeRef` and `workflowRef` context items listed in the generator's
+   * `contextAccess` come first, then the generator's sibling nodes.
+   */
+  private async resolveGeneratorCall(
+    name: string,
+    accessible: Set<string>,
+    nodeId: string,
+    scope: NodeExecutionScope
+  ): Promise<WorkflowNode> {
+    const scoped = accessible.has(name) ? scope.contextItems?.[name] : undefined;
+
+    if (scoped?.item.type === "nodeRef") {
+      return this.getReferencedNode(scoped, scoped.item.nodeId);
+    }
+
+    if (scoped?.item.type === "workflowRef") {
+      const workflow = await this.storage.getWorkflow(scoped.item.workflowId);
+      if (!workflow) {
+        throw new Error(`Workflow ${scoped.item.workflowId} not found`);
+      }
+      // Called through the context item
+      return {
+        type: "callWorkflow",
+        workflowRef: name,
+        inputType: workflow.definition.root.inputType,
+        outputType: workflow.definition.root.outputType,
+      };
+    }
 
+    const sibling = scope.siblings?.[name];
+    if (!sibling) {
       throw new Error(
-        `Workflow call approval required. Approval request: ${approvalId}`
+        `Generator node ${nodeId} can't call ${name}: no such sibling node or accessible context item`
       );
     }
+    return sibling;
+  }
+
+  /**
+   * Find the node a `nodeRef` context item refers to, in the group declaring
+   * the item
+   */
+  private getReferencedNode(
+    scoped: ScopedContextItem,
+    targetId: string
+  ): WorkflowNode {
+    const target = scoped.group.nodes[targetId];
+    if (!target) {
+      throw new Error(`Node ${targetId} not found in group ${scoped.groupId}`);
+    }
+    return target;
+  }
+
+  /**
+   * Build the source stream of a stream node
+   */
+  private resolveStreamSource(
+    source: WorkflowStreamSource,
+    resolve: (sourceId: string) => Stream,
+    resolveExternal: (sourceFn: string) => Stream
+  ): Stream {
+    switch (source.type) {
+      case "node":
+        return resolve(source.nodeId);
+
+      case "merge":
+        return mergeStreams(source.nodeIds.map(resolve));
+
+      case "external":
+        return resolveExternal(source.sourceFn);
 
-    // Get referenced workflow
-    const workflow = await this.storage.getWorkflow(node.workflowRef);
-    if (!workflow) {
-      throw new Error(`Workflow ${node.workflowRef} not found`);
+      default:
+        throw new Error(
+          `Unknown stream source type: ${(source as { type: string }).type}`
+        );
     }
+  }
 
-    // Map input if needed
-    let mappedInput = input;
-    if (node.inputMapping) {
-      mappedInput = await executeTransform(node.inputMapping, input);
+  /**
+   * Stream the items of a registered external source
+   *
+   * The source is consumed with backpressure, and its signal is aborted
+   * when the stream node stops, be it because its operators completed, it
+   * failed, or its group stopped it.
+   */
+  private resolveExternalStreamSource(
+    sourceFn: string,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope
+  ): Stream {
+    const factory = this.streamSources[sourceFn];
+    if (!factory) {
+      throw new Error(`Stream source ${sourceFn} not found`);
     }
 
-    // Execute workflow
-    const result = await this.executeWorkflow(
-      workflow.definition,
-      node.workflowRef,
-      mappedInput,
-      { budgetPoolId }
+    return fromAsyncIterable((signal) =>
+      factory({ sessionId: scope.sessionId, nodeId, input, signal })
     );
+  }
+
+  /**
+   * Stream the outputs of a node referenced by a stream node
+   */
+  private resolveStreamNode(
+    sourceId: string,
+    nodeId: string,
+    scope: NodeExecutionScope
+  ): Stream {
+    if (!scope.streams || !scope.siblingId) {
+      throw new Error(`Stream node ${nodeId} must be part of a group`);
+    }
+
+    const [siblingId, ...path] = sourceId.split(".");
+    const settledBy = scope.siblingId(siblingId);
+    return scope.streams.observe([settledBy, ...path].join("."), settledBy);
+  }
+
+  /**
+   * Execute a callWorkflow node
+   *
+   * A `workflowRef` naming a context item of an enclosing group calls the
+   * item: a `nodeRef` runs the referenced node as `<node>.<key>`, and a
+   * `workflowRef` the workflow it names. Other references are workflow IDs.
+   */
+  private async executeCallWorkflowNode(
+    node: WorkflowNodeCallWorkflow,
+    nodeId: string,
+    input: unknown,
+    scope: NodeExecutionScope
+  ): Promise<unknown> {
+    const scoped = scope.contextItems?.[node.workflowRef];
+    if (
+      scoped &&
+      scoped.item.type !== "nodeRef" &&
+      scoped.item.type !== "workflowRef"
+    ) {
+      throw new Error(
+        `Context key ${node.workflowRef} of node ${nodeId} isn't a nodeRef or workflowRef item`
+      );
+    }
+
+    // A sub-workflow session started before the session was paused or
+    // interrupted
+    const childSessionId = scope.restored?.[nodeId]?.metadata
+      ?.childSessionId as string | undefined;
+
+    // Check if approval is required
+    if (node.requiresApproval && !childSessionId) {
+      await this.requireApproval(nodeId, scope, "workflow_call", {
+        description: "Approval required for workflow call",
+        workflowRef: node.workflowRef,
+      });
+    }
+
+    let output: unknown;
+    if (scoped?.item.type === "nodeRef") {
+      output = await this.executeNode(
+        this.getReferencedNode(scoped, scoped.item.nodeId),
+        `${nodeId}.${node.workflowRef}`,
+        await this.mapCallInput(node, input, scope),
+        scope
+      );
+    } else {
+      output = await this.executeCalledWorkflow(
+        node,
+        nodeId,
+        scoped?.item.type === "workflowRef"
+          ? scoped.item.workflowId
+          : node.workflowRef,
+        input,
+        childSessionId,
+        scope
+      );
+    }
 
     // Map output if needed
-    let mappedOutput = result.output;
+    let mappedOutput = output;
     if (node.outputMapping) {
-      mappedOutput = await executeTransform(node.outputMapping, result.output);
+      mappedOutput = await executeTransform(
+        node.outputMapping,
+        output,
+        [],
+        scope.contextData
+      );
     }
 
     return mappedOutput;
   }
 
   /**
-   * Resume a paused session
+   * Map the input of a callWorkflow node, if needed
    */
-  async resumeSession(sessionId: string, approvalId: string): Promise<void> {
-    const approval = await this.storage.getApprovalRequest(approvalId);
-    if (!approval) {
-      throw new Error(`Approval request ${approvalId} not found`);
+  private async mapCallInput(
+    node: WorkflowNodeCallWorkflow,
+    input: unknown,
+    scope: NodeExecutionScope
+  ): Promise<unknown> {
+    return node.inputMapping
+      ? executeTransform(node.inputMapping, input, [], scope.contextData)
+      : input;
+  }
+
+  /**
+   * Run the workflow called by a callWorkflow node in a session of its own,
+   * or continue the session started before a pause, returning its output
+   */
+  private async executeCalledWorkflow(
+    node: WorkflowNodeCallWorkflow,
+    nodeId: string,
+    workflowId: string,
+    input: unknown,
+    childSessionId: string | undefined,
+    scope: NodeExecutionScope
+  ): Promise<unknown> {
+    let result: WorkflowRunResult;
+    if (childSessionId) {
+      await this.recordChildSession(nodeId, input, childSessionId, scope);
+      result = await this.continueChildSession(childSessionId);
+    } else {
+      // Get referenced workflow
+      const workflow = await this.storage.getWorkflow(workflowId);
+      if (!workflow) {
+        throw new Error(`Workflow ${workflowId} not found`);
+      }
+
+      const mappedInput = await this.mapCallInput(node, input, scope);
+
+      const sessionId = `${scope.sessionId}:${nodeId}:${Date.now()}`;
+      const budgetPoolId = node.budget
+        ? await this.createCallBudgetPool(node.budget, nodeId, sessionId, scope)
+        : scope.budgetPoolId;
+      await this.recordChildSession(nodeId, input, sessionId, scope);
+
+      // Execute workflow
+      result = await this.executeWorkflow(
+        workflow.definition,
+        workflowId,
+        mappedInput,
+        { sessionId, budgetPoolId, parentSessionId: scope.sessionId }
+      );
     }
 
-    if (approval.status !== "approved") {
-      throw new Error(`Approval request ${approvalId} is not approved`);
+    // Pause along with the sub-workflow session
+    if (result.pendingApprovalId) {
+      const error = new WorkflowPausedError(
+        result.pendingApprovalId,
+        nodeId,
+        result.status,
+        "waiting_for_approval"
+      );
+      error.checkpoints[nodeId] = { childSessionId: result.sessionId };
+      throw error;
     }
 
-    // Resume execution based on approval type
-    // This would require storing execution state and resuming from the paused point
-    // For now, just update the session status
-    await this.storage.updateSession(sessionId, {
+    return result.output;
+  }
+
+  /**
+   * Create the pool capping the spending of a called workflow, as a child of
+   * the caller's pool when it has one
+   */
+  private async createCallBudgetPool(
+    budget: WorkflowCallBudget,
+    nodeId: string,
+    childSessionId: string,
+    scope: NodeExecutionScope
+  ): Promise<string> {
+    const parent = scope.budgetPoolId
+      ? await this.budgetManager.getPool(scope.budgetPoolId)
+      : null;
+
+    const pool = await this.budgetManager.createPool(
+      `${childSessionId}:budget`,
+      budget.amount,
+      scope.budgetPoolId,
+      {
+        sessionId: childSessionId,
+        nodeId,
+        independentAmount: budget.independentAmount,
+      },
+      parent?.unit || "tokens"
+    );
+    return pool.id;
+  }
+
+  /**
+   * Record the sub-workflow session of a running callWorkflow node
+   *
+   * Stored before the sub-workflow runs, so an interrupted session continues
+   * it instead of starting a new one.
+   */
+  private async recordChildSession(
+    nodeId: string,
+    input: unknown,
+    childSessionId: string,
+    scope: NodeExecutionScope
+  ): Promise<void> {
+    await this.storage.updateNodeState(scope.sessionId, nodeId, {
+      nodeId,
       status: "running",
-      updatedAt: new Date(),
+      input,
+      startedAt: scope.restored?.[nodeId]?.startedAt || new Date(),
+      metadata: { childSessionId },
     });
   }
+
+  /**
+   * Continue a sub-workflow session, or collect its output when it completed
+   * before the parent session was interrupted
+   */
+  private async continueChildSession(
+    sessionId: string
+  ): Promise<WorkflowRunResult> {
+    const session = await this.storage.getSession(sessionId);
+    if (session?.status !== "completed") {
+      return this.continueSession(sessionId);
+    }
+
+    const executionState = await this.storage.getExecutionState(sessionId);
+    return {
+      sessionId,
+      output: executionState?.nodeStates.root?.output,
+      success: true,
+      status: "completed",
+    };
+  }
+
+  /**
+   * Wait for an approval before a node continues
+   *
+   * The first time, creates the approval request and pauses the session.
+   * When the session is resumed, the node continues once its request is
+   * approved and fails if the request was rejected.
+   */
+  private async requireApproval(
+    nodeId: string,
+    scope: NodeExecutionScope,
+    type: ApprovalType,
+    context: ApprovalRequest["context"]
+  ): Promise<void> {
+    const { sessionId } = scope;
+    const statuses = APPROVAL_WAIT_STATUSES[type];
+
+    const pendingApprovalId = scope.restored?.[nodeId]?.pendingApprovalId;
+    if (pendingApprovalId) {
+      const approval = await this.storage.getApprovalRequest(pendingApprovalId);
+      if (approval?.status === "approved") {
+        return;
+      }
+      if (approval?.status === "pending") {
+        throw new WorkflowPausedError(
+          approval.id,
+          nodeId,
+          statuses.session,
+          statuses.node
+        );
+      }
+      if (approval) {
+        throw new Error(
+          `Approval request ${approval.id} was ${approval.status}`
+        );
+      }
+    }
+
+    const approvalId = `approval-${sessionId}-${nodeId}-${Date.now()}`;
+    const approvalRequest: ApprovalRequest = {
+      id: approvalId,
+      sessionId,
+      nodeId,
+      type,
+      status: "pending",
+      context,
+      createdAt: new Date(),
+    };
+
+    await this.storage.createApprovalRequest(approvalRequest);
+
+    throw new WorkflowPausedError(
+      approvalId,
+      nodeId,
+      statuses.session,
+      statuses.node
+    );
+  }
 }
@@ -0,0 +1,96 @@
+import type {
+  BudgetPool,
+  NodeExecutionStatus,
+  SessionStatus,
+} from "@aaow/types";
+import type { WorkflowDiagnostic } from "./checker";
+
+/**
+ * Error raised by a group when one of its child nodes fails
+ *
+ * Keeps the original error and the ID of the failing child so group error
+ * handlers can report where the failure happened.
+ */
+export class ChildNodeError extends Error {
+  /** Original error thrown by the child node */
+  readonly error: unknown;
+
+  constructor(
+    /** Full ID of the failing child node */
+    readonly nodeId: string,
+    error: unknown
+  ) {
+    // Collapse nested group failures onto the original error
+    const original = error instanceof ChildNodeError ? error.error : error;
+    super(original instanceof Error ? original.message : String(original));
+    this.name = "ChildNodeError";
+    this.error = original;
+  }
+}
+
+/**
+ * Unwrap the original error from a child node failure
+ */
+export function unwrapChildNodeError(error: unknown): unknown {
+  return error instanceof ChildNodeError ? error.error : error;
+}
+
+/**
+ * Signal raised when a node waits for an approval
+ *
+ * Propagates up to the session instead of failing it. Each enclosing node
+ * adds the metadata it needs to resume (such as a group's cursor) to
+ * `checkpoints`, keyed by node ID.
+ */
+export class WorkflowPausedError extends Error {
+  /** Checkpoint metadata collected while the pause propagates */
+  readonly checkpoints: Record<string, Record<string, unknown>> = {};
+
+  constructor(
+    /** Approval request the session waits for */
+    readonly approvalId: string,
+    /** Node that requested the approval */
+    readonly nodeId: string,
+    /** Session status while paused */
+    readonly sessionStatus: SessionStatus,
+    /** Node status while paused */
+    readonly nodeStatus: NodeExecutionStatus
+  ) {
+    super(`Waiting for approval request ${approvalId}`);
+    this.name = "WorkflowPausedError";
+  }
+}
+
+/**
+ * Error raised when a budget pool, or one of its ancestors, can't afford a
+ * consumption
+ */
+export class BudgetExhaustedError extends Error {
+  constructor(
+    /** Pool of the chain that ran out of budget */
+    readonly pool: BudgetPool,
+    /** Amount the pool lacks, in its unit */
+    readonly shortfall: number
+  ) {
+    super(`Insufficient budget in pool ${pool.id}`);
+    this.name = "BudgetExhaustedError";
+  }
+}
+
+/**
+ * Error raised when saving a workflow that fails static checks
+ */
+export class WorkflowCheckError extends Error {
+  constructor(
+    /** Diagnostics found by `checkWorkflow`, including warnings */
+    readonly diagnostics: WorkflowDiagnostic[]
+  ) {
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    super(
+      `Invalid workflow: ${errors
+        .map((d) => `${d.path}: ${d.message}`)
+        .join("; ")}`
+    );
+    this.name = "WorkflowCheckError";
+  }
+}
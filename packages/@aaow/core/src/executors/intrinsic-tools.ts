@@ -0,0 +1,160 @@
+import type {
+  IncidentSeverity,
+  StorageAdapter,
+  ToolDefinition,
+  WorkflowToolIntrinsic,
+} from "@aaow/types";
+import { z } from "zod";
+
+/**
+ * Intrinsic tools
+ *
+ * Tools built into the engine, which LLM nodes opt into through
+ * `availableTools`. Unlike custom tools they act on the running node.
+ */
+
+/**
+ * Retry ceiling of a running LLM node, shared with its tools
+ */
+export interface RetryCeiling {
+  /** Retries the node may still spend */
+  retriesLeft: number;
+
+  /** Retries granted so far without an approval */
+  autoGranted: number;
+
+  /** Approval request for more retries, while it's pending */
+  pendingApprovalId?: string;
+}
+
+/**
+ * How requests for more retries are granted
+ */
+export interface RetryIncreasePolicy {
+  /**
+   * Retries a node may grant itself without an approval (default: 0). Larger
+   * requests create a `retry_increase` approval request.
+   */
+  maxAutoGrantedRetries?: number;
+}
+
+export interface IntrinsicToolContext {
+  storage: StorageAdapter;
+  sessionId: string;
+  nodeId: string;
+  retries: RetryCeiling;
+  retryIncreasePolicy: RetryIncreasePolicy;
+}
+
+/**
+ * Create the tool implementing an intrinsic
+ */
+export function createIntrinsicTool(
+  type: WorkflowToolIntrinsic["type"],
+  context: IntrinsicToolContext
+): ToolDefinition {
+  switch (type) {
+    case "requestIncreaseMaxRetries":
+      return createRequestIncreaseMaxRetriesTool(context);
+
+    case "logIncident":
+      return createLogIncidentTool(context);
+
+    default:
+      throw new Error(`Unknown intrinsic tool: ${type}`);
+  }
+}
+
+function createRequestIncreaseMaxRetriesTool(
+  context: IntrinsicToolContext
+): ToolDefinition {
+  const { storage, sessionId, nodeId, retries, retryIncreasePolicy } = context;
+
+  return {
+    description:
+      "Request more attempts at this task when the remaining retries aren't enough to complete it",
+    inputSchema: z.object({
+      additionalRetries: z
+        .number()
+        .int()
+        .positive()
+        .describe("Number of retries to add"),
+      reason: z.string().describe("Why more retries are needed"),
+    }),
+    async execute(input) {
+      const { additionalRetries, reason } = input as {
+        additionalRetries: number;
+        reason: string;
+      };
+
+      const maxAutoGranted = retryIncreasePolicy.maxAutoGrantedRetries ?? 0;
+      if (retries.autoGranted + additionalRetries <= maxAutoGranted) {
+        retries.autoGranted += additionalRetries;
+        retries.retriesLeft += additionalRetries;
+        return { granted: true, retriesLeft: retries.retriesLeft };
+      }
+
+      // One request per node execution, the node pauses for it once it runs
+      // out of retries
+      if (!retries.pendingApprovalId) {
+        const approvalId = `approval-${sessionId}-${nodeId}-${Date.now()}`;
+        await storage.createApprovalRequest({
+          id: approvalId,
+          sessionId,
+          nodeId,
+          type: "retry_increase",
+          status: "pending",
+          context: { description: reason, requestedRetries: additionalRetries },
+          createdAt: new Date(),
+        });
+        retries.pendingApprovalId = approvalId;
+      }
+
+      return {
+        granted: false,
+        status: "pending_approval",
+        approvalId: retries.pendingApprovalId,
+        retriesLeft: retries.retriesLeft,
+      };
+    },
+  };
+}
+
+function createLogIncidentTool(context: IntrinsicToolContext): ToolDefinition {
+  const { storage, sessionId, nodeId } = context;
+
+  return {
+    description:
+      "Report an incident, such as bad input data or a failing dependency, for operators to look into",
+    inputSchema: z.object({
+      severity: z
+        .enum(["info", "warning", "error", "critical"])
+        .describe("How serious the incident is"),
+      message: z.string().describe("What happened"),
+      details: z
+        .record(z.unknown())
+        .optional()
+        .describe("Additional structured details"),
+    }),
+    async execute(input) {
+      const { severity, message, details } = input as {
+        severity: IncidentSeverity;
+        message: string;
+        details?: Record<string, unknown>;
+      };
+
+      const incidentId = `incident-${sessionId}-${nodeId}-${Date.now()}`;
+      await storage.logIncident({
+        id: incidentId,
+        sessionId,
+        nodeId,
+        severity,
+        message,
+        details,
+        timestamp: new Date(),
+      });
+
+      return { incidentId };
+    },
+  };
+}
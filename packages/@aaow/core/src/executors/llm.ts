@@ -1,4 +1,12 @@
-import { generateText, generateObject, tool as createTool } from "ai";
+import {
+  generateText,
+  generateObject,
+  tool as createTool,
+  Output,
+  JSONParseError,
+  NoObjectGeneratedError,
+  TypeValidationError,
+} from "ai";
 import type {
   LLMExecutionResult,
   ToolRegistry,
@@ -38,6 +46,83 @@ export interface LLMExecutorOptions {
 
   /** Node ID for logging */
   nodeId?: string;
+
+  /** Abort signal to cancel the generation */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Convert registered tools to AI SDK tools, logging their calls to storage
+ */
+function toAITools(
+  tools: ToolRegistry | undefined,
+  options: LLMExecutorOptions
+): Record<string, any> | undefined {
+  const { storage, sessionId, nodeId } = options;
+
+  return tools
+    ? Object.entries(tools).reduce((acc, [name, toolDef]) => {
+        // Extract schema - handle both Zod schemas and plain objects
+        let schema: z.ZodType<any>;
+        if (
+          typeof toolDef.inputSchema === "object" &&
+          toolDef.inputSchema !== null &&
+          "parse" in toolDef.inputSchema
+        ) {
+          // It's a Zod schema
+          schema = toolDef.inputSchema as z.ZodType<any>;
+        } else {
+          // It's a plain object, wrap it in z.object()
+          schema = z.object(toolDef.inputSchema as any);
+        }
+
+        acc[name] = createTool({
+          description: toolDef.description,
+          parameters: schema,
+          execute: async (input, toolOptions) => {
+            if (!toolDef.execute) {
+              throw new Error(`Tool ${name} has no execute function`);
+            }
+
+            const result = await toolDef.execute(input, {
+              toolCallId: toolOptions?.toolCallId || `${name}-${Date.now()}`,
+              messages: toolOptions?.messages,
+              abortSignal: toolOptions?.abortSignal,
+            });
+
+            // Log tool call if storage is available
+            if (storage && sessionId && nodeId) {
+              await storage.logToolCall({
+                id: `${sessionId}-${nodeId}-${name}-${Date.now()}`,
+                executionId: `${sessionId}-${nodeId}`,
+                toolName: name,
+                toolCallId: toolOptions?.toolCallId || `${name}-${Date.now()}`,
+                args: input as Record<string, unknown>,
+                result,
+                timestamp: new Date(),
+              });
+            }
+
+            return result;
+          },
+        });
+
+        return acc;
+      }, {} as Record<string, any>)
+    : undefined;
+}
+
+/**
+ * Read the prompt tokens served from the prompt cache, which providers
+ * report in their metadata
+ */
+function getCachedPromptTokens(
+  providerMetadata: Record<string, Record<string, unknown>> | undefined
+): number | undefined {
+  const cached =
+    providerMetadata?.openai?.cachedPromptTokens ??
+    providerMetadata?.anthropic?.cacheReadInputTokens;
+  return typeof cached === "number" ? cached : undefined;
 }
 
 /**
@@ -54,9 +139,7 @@ export async function executeLLM(
     maxRetries = 3,
     temperature = 0.7,
     maxTokens,
-    storage,
-    sessionId,
-    nodeId,
+    abortSignal,
   } = options;
 
   try {
@@ -65,56 +148,7 @@ export async function executeLLM(
       typeof prompt === "string" ? prompt : JSON.stringify(prompt, null, 2);
 
     // Convert tools to AI SDK format
-    const aiTools = tools
-      ? Object.entries(tools).reduce((acc, [name, toolDef]) => {
-          // Extract schema - handle both Zod schemas and plain objects
-          let schema: z.ZodType<any>;
-          if (
-            typeof toolDef.inputSchema === "object" &&
-            toolDef.inputSchema !== null &&
-            "parse" in toolDef.inputSchema
-          ) {
-            // It's a Zod schema
-            schema = toolDef.inputSchema as z.ZodType<any>;
-          } else {
-            // It's a plain object, wrap it in z.object()
-            schema = z.object(toolDef.inputSchema as any);
-          }
-
-          acc[name] = createTool({
-            description: toolDef.description,
-            parameters: schema,
-            execute: async (input, toolOptions) => {
-              if (!toolDef.execute) {
-                throw new Error(`Tool ${name} has no execute function`);
-              }
-
-              const result = await toolDef.execute(input, {
-                toolCallId: toolOptions?.toolCallId || `${name}-${Date.now()}`,
-                messages: toolOptions?.messages,
-                abortSignal: toolOptions?.abortSignal,
-              });
-
-              // Log tool call if storage is available
-              if (storage && sessionId && nodeId) {
-                await storage.logToolCall({
-                  id: `${sessionId}-${nodeId}-${name}-${Date.now()}`,
-                  executionId: `${sessionId}-${nodeId}`,
-                  toolName: name,
-                  toolCallId: toolOptions?.toolCallId || `${name}-${Date.now()}`,
-                  args: input as Record<string, unknown>,
-                  result,
-                  timestamp: new Date(),
-                });
-              }
-
-              return result;
-            },
-          });
-
-          return acc;
-        }, {} as Record<string, any>)
-      : undefined;
+    const aiTools = toAITools(tools, options);
 
     // Execute with AI SDK
     const result = await generateText({
@@ -125,6 +159,7 @@ export async function executeLLM(
       maxRetries,
       temperature,
       maxTokens,
+      abortSignal,
     });
 
     // Extract tool calls
@@ -149,6 +184,7 @@ export async function executeLLM(
             promptTokens: result.usage.promptTokens,
             completionTokens: result.usage.completionTokens,
             totalTokens: result.usage.totalTokens,
+            cachedPromptTokens: getCachedPromptTokens(result.providerMetadata),
           }
         : undefined,
     };
@@ -162,44 +198,125 @@ export async function executeLLM(
   }
 }
 
+/**
+ * Check whether an error means the model output didn't match the schema
+ */
+function isOutputParseError(error: unknown): boolean {
+  return (
+    NoObjectGeneratedError.isInstance(error) ||
+    JSONParseError.isInstance(error) ||
+    TypeValidationError.isInstance(error)
+  );
+}
+
 /**
  * Execute LLM with structured output
+ *
+ * Uses `generateObject`, or `generateText` with an object output when tools
+ * are available. Output that doesn't parse against the schema is generated
+ * again, up to `maxRetries` times; token usage adds up over the attempts.
  */
 export async function executeLLMWithSchema<T>(
   prompt: string | unknown,
   schema: z.ZodType<T>,
   options: LLMExecutorOptions
-): Promise<{ success: boolean; data?: T; error?: string }> {
+): Promise<LLMExecutionResult & { data?: T }> {
   const {
     model,
     systemPrompt,
+    tools,
     maxRetries = 3,
     temperature = 0.7,
     maxTokens,
+    abortSignal,
   } = options;
 
-  try {
-    const promptText =
-      typeof prompt === "string" ? prompt : JSON.stringify(prompt, null, 2);
+  const usage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cachedPromptTokens: 0,
+  };
+  const addUsage = (
+    attemptUsage?: LLMExecutionResult["usage"],
+    providerMetadata?: Record<string, Record<string, unknown>>
+  ): void => {
+    usage.promptTokens += attemptUsage?.promptTokens || 0;
+    usage.completionTokens += attemptUsage?.completionTokens || 0;
+    usage.totalTokens += attemptUsage?.totalTokens || 0;
+    usage.cachedPromptTokens += getCachedPromptTokens(providerMetadata) || 0;
+  };
 
-    const result = await generateObject({
-      model,
-      system: systemPrompt,
-      prompt: promptText,
-      schema,
-      maxRetries,
-      temperature,
-      maxTokens,
-    });
+  const promptText =
+    typeof prompt === "string" ? prompt : JSON.stringify(prompt, null, 2);
+  const aiTools = toAITools(tools, options);
 
-    return {
-      success: true,
-      data: result.object as T,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      let data: T;
+      const toolCalls: ToolCall[] = [];
+
+      if (aiTools && Object.keys(aiTools).length > 0) {
+        const result = await generateText({
+          model,
+          system: systemPrompt,
+          prompt: promptText,
+          tools: aiTools,
+          experimental_output: Output.object({ schema }),
+          maxRetries,
+          temperature,
+          maxTokens,
+          abortSignal,
+        });
+        addUsage(result.usage, result.providerMetadata);
+        data = result.experimental_output as T;
+
+        for (const tc of result.toolCalls) {
+          toolCalls.push({
+            toolName: tc.toolName,
+            toolCallId: tc.toolCallId,
+            args: tc.args as Record<string, unknown>,
+            result: (tc as any).result,
+          });
+        }
+      } else {
+        const result = await generateObject({
+          model,
+          system: systemPrompt,
+          prompt: promptText,
+          schema,
+          maxRetries,
+          temperature,
+          maxTokens,
+          abortSignal,
+        });
+        addUsage(result.usage, result.providerMetadata);
+        data = result.object as T;
+      }
+
+      return {
+        success: true,
+        data,
+        text: JSON.stringify(data),
+        toolCalls,
+        usage,
+        metadata: { attempts: attempt + 1 },
+      };
+    } catch (error) {
+      if (NoObjectGeneratedError.isInstance(error)) {
+        addUsage(error.usage);
+      }
+
+      if (isOutputParseError(error) && attempt < maxRetries) {
+        continue;
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        usage,
+        metadata: { attempts: attempt + 1 },
+      };
+    }
   }
 }
@@ -0,0 +1,96 @@
+import type { LLMExecutionResult, WorkflowNodeMessageType } from "@aaow/types";
+import { compileMessageType } from "../message-type";
+import { executeLLMWithSchema, type LLMExecutorOptions } from "./llm";
+
+/**
+ * LLM reviewer executor
+ *
+ * A reviewer reads the task input and the output generated for it, and
+ * either approves the output or rejects it with feedback for a revision.
+ */
+
+/**
+ * Retries of a reviewer whose verdict doesn't parse
+ */
+export const REVIEWER_MAX_RETRIES = 3;
+
+export type ReviewVerdict =
+  | { tag: "approve" }
+  | { tag: "reject"; feedback: string };
+
+const ReviewVerdictType: WorkflowNodeMessageType = {
+  type: "taggedUnion",
+  value: {
+    approve: {
+      description: "The output fulfills the task",
+      type: { type: "object", value: {} },
+    },
+    reject: {
+      description: "The output has to be revised",
+      type: {
+        type: "object",
+        value: {
+          feedback: {
+            description: "What is wrong with the output and how to fix it",
+            type: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+};
+
+const ReviewVerdictSchema = compileMessageType(ReviewVerdictType);
+
+function formatMessage(message: unknown): string {
+  return typeof message === "string"
+    ? message
+    : JSON.stringify(message, null, 2);
+}
+
+/**
+ * Build the prompt asking to revise a rejected output
+ */
+export function buildRevisionPrompt(
+  input: unknown,
+  output: unknown,
+  feedback: string[]
+): string {
+  return [
+    formatMessage(input),
+    "## Previous output",
+    formatMessage(output),
+    "## Reviewer feedback",
+    feedback.map((f) => `- ${f}`).join("\n"),
+    "Revise the previous output to address the feedback.",
+  ].join("\n\n");
+}
+
+/**
+ * Build the prompt asking to review an output
+ */
+export function buildReviewPrompt(input: unknown, output: unknown): string {
+  return [
+    "Review the output generated for the task below. Approve it, or reject it with feedback.",
+    "## Task",
+    formatMessage(input),
+    "## Output",
+    formatMessage(output),
+  ].join("\n\n");
+}
+
+/**
+ * Review an output generated for the given input
+ */
+export async function executeReview(
+  input: unknown,
+  output: unknown,
+  options: LLMExecutorOptions
+): Promise<LLMExecutionResult & { verdict?: ReviewVerdict }> {
+  const { data, ...result } = await executeLLMWithSchema(
+    buildReviewPrompt(input, output),
+    ReviewVerdictSchema,
+    options
+  );
+  return { ...result, verdict: data as ReviewVerdict | undefined };
+}
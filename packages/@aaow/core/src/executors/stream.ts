@@ -0,0 +1,602 @@
+import type { WorkflowStreamOperator } from "@aaow/types";
+import type { Clock } from "../clock";
+import { executeTransform } from "./transform";
+
+/**
+ * Stream node executor
+ *
+ * Minimal push-based streams for stream nodes. A stage awaits its observer
+ * before taking the next value, so operators keep the order of their source
+ * even though their transform functions are asynchronous.
+ */
+
+export interface StreamObserver<T = unknown> {
+  next(value: T): Promise<void>;
+  complete(): Promise<void>;
+  error(error: unknown): void;
+}
+
+/**
+ * Stream of values, subscribing an observer returns a function that
+ * unsubscribes it
+ */
+export type Stream<T = unknown> = (observer: StreamObserver<T>) => () => void;
+
+export interface StreamOperatorContext {
+  /** Time source of `debounce` and `throttle` */
+  clock: Clock;
+
+  /** Resolve the stream of a node referenced by a `merge` operator */
+  resolve(nodeId: string): Stream;
+
+  /** Data items read by the `context` functions of transforms */
+  contextData?: Record<string, unknown>;
+
+  /** Resolve the operator of a `streamOperator` context item */
+  resolveOperator?(key: string): WorkflowStreamOperator;
+}
+
+interface OperatorStage {
+  next(value: unknown): Promise<void>;
+
+  /** Flush buffered values before the stream completes */
+  complete?(): Promise<void>;
+
+  /** Release timers when the stage stops */
+  dispose?(): void;
+}
+
+interface OperatorSink {
+  observer: StreamObserver;
+
+  /** Complete the stream early, unsubscribing from the source */
+  finish(): Promise<void>;
+
+  /** Fail the stream, unsubscribing from the source */
+  fail(error: unknown): void;
+}
+
+/**
+ * Build a stream from a source and a stage created for each subscription
+ */
+function operate(
+  source: Stream,
+  createStage: (sink: OperatorSink) => OperatorStage
+): Stream {
+  return (observer) => {
+    let closed = false;
+    let unsubscribe = () => {};
+
+    const close = () => {
+      closed = true;
+      stage.dispose?.();
+      unsubscribe();
+    };
+    const sink: OperatorSink = {
+      observer,
+      finish: async () => {
+        if (closed) return;
+        close();
+        await observer.complete();
+      },
+      fail: (error) => {
+        if (closed) return;
+        close();
+        observer.error(error);
+      },
+    };
+    const stage = createStage(sink);
+
+    unsubscribe = source({
+      next: async (value) => {
+        if (closed) return;
+        try {
+          await stage.next(value);
+        } catch (error) {
+          sink.fail(error);
+        }
+      },
+      complete: async () => {
+        if (closed) return;
+        try {
+          await stage.complete?.();
+          await sink.finish();
+        } catch (error) {
+          sink.fail(error);
+        }
+      },
+      error: sink.fail,
+    });
+    if (closed) {
+      unsubscribe();
+    }
+
+    return close;
+  };
+}
+
+/**
+ * Stream the items of an async iterable
+ *
+ * The next item is pulled once the observer took the previous one.
+ * Unsubscribing aborts the signal passed to `create` and returns the
+ * iterator.
+ */
+export function fromAsyncIterable(
+  create: (signal: AbortSignal) => AsyncIterable<unknown>
+): Stream {
+  return (observer) => {
+    const controller = new AbortController();
+    let iterator: AsyncIterator<unknown> | undefined;
+
+    const pull = async () => {
+      try {
+        iterator = create(controller.signal)[Symbol.asyncIterator]();
+        for (;;) {
+          const result = await iterator.next();
+          if (controller.signal.aborted) return;
+          if (result.done) break;
+
+          await observer.next(result.value);
+          if (controller.signal.aborted) return;
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          controller.abort();
+          observer.error(error);
+        }
+        return;
+      }
+
+      controller.abort();
+      await observer.complete();
+    };
+    void pull();
+
+    return () => {
+      if (controller.signal.aborted) return;
+      controller.abort();
+      // A pending `next` may hold the return back, don't wait for it
+      iterator?.return?.().catch(() => undefined);
+    };
+  };
+}
+
+/**
+ * Key identifying equal values for `distinct` and `distinctUntilChanged`
+ */
+function valueKey(value: unknown): string {
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * Merge streams into one that completes once all of them complete
+ */
+export function mergeStreams(streams: Stream[]): Stream {
+  return (observer) => {
+    let remaining = streams.length;
+    let closed = false;
+    // Values of concurrent sources are delivered one at a time
+    let delivery = Promise.resolve();
+    const unsubscribes: (() => void)[] = [];
+
+    const close = () => {
+      closed = true;
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+    const fail = (error: unknown) => {
+      if (closed) return;
+      close();
+      observer.error(error);
+    };
+    const deliver = (task: () => Promise<void>) => {
+      delivery = delivery.then(() => (closed ? undefined : task()));
+      delivery = delivery.catch(fail);
+      return delivery;
+    };
+
+    if (remaining === 0) {
+      void deliver(() => observer.complete());
+      return close;
+    }
+
+    for (const stream of streams) {
+      unsubscribes.push(
+        stream({
+          next: (value) => deliver(() => observer.next(value)),
+          complete: () =>
+            deliver(async () => {
+              if (--remaining === 0) {
+                closed = true;
+                await observer.complete();
+              }
+            }),
+          error: fail,
+        })
+      );
+    }
+
+    return close;
+  };
+}
+
+/**
+ * Apply a stream operator
+ *
+ * - `map`, `filter` and `scan` run transform functions; `filter` keeps the
+ *   values its function returns `true` for, and `scan` passes
+ *   `{ accumulator, value }` to its function
+ * - `debounce` emits a value once no other one followed it for `ms`
+ *   milliseconds, and flushes the last one when the source completes
+ * - `throttle` emits a value, then drops the others for `ms` milliseconds
+ * - `distinct` and `distinctUntilChanged` compare values by their JSON
+ * - `context` applies the operator of a `streamOperator` context item
+ */
+export function applyOperator(
+  source: Stream,
+  operator: WorkflowStreamOperator,
+  context: StreamOperatorContext
+): Stream {
+  const transform = (fn: unknown, value: unknown) =>
+    executeTransform(fn, value, [], context.contextData);
+
+  switch (operator.type) {
+    case "map":
+      return operate(source, ({ observer }) => ({
+        next: async (value) =>
+          observer.next(await transform(operator.fn, value)),
+      }));
+
+    case "filter":
+      return operate(source, ({ observer }) => ({
+        next: async (value) => {
+          if ((await transform(operator.fn, value)) === true) {
+            await observer.next(value);
+          }
+        },
+      }));
+
+    case "scan":
+      return operate(source, ({ observer }) => {
+        let accumulator = operator.initialValue;
+        return {
+          next: async (value) => {
+            accumulator = await transform(operator.fn, {
+              accumulator,
+              value,
+            });
+            await observer.next(accumulator);
+          },
+        };
+      });
+
+    case "merge":
+      return mergeStreams([
+        source,
+        ...operator.streams.map((nodeId) => context.resolve(nodeId)),
+      ]);
+
+    case "take":
+      if (operator.count <= 0) {
+        // An empty merge completes right away
+        return mergeStreams([]);
+      }
+      return operate(source, ({ observer, finish }) => {
+        let taken = 0;
+        return {
+          next: async (value) => {
+            taken++;
+            await observer.next(value);
+            if (taken >= operator.count) {
+              await finish();
+            }
+          },
+        };
+      });
+
+    case "skip":
+      return operate(source, ({ observer }) => {
+        let skipped = 0;
+        return {
+          next: async (value) => {
+            if (skipped < operator.count) {
+              skipped++;
+              return;
+            }
+            await observer.next(value);
+          },
+        };
+      });
+
+    case "debounce":
+      return operate(source, ({ observer, fail }) => {
+        let pending: { value: unknown } | undefined;
+        let timer: unknown;
+        let delivery = Promise.resolve();
+
+        const flush = () => {
+          timer = undefined;
+          if (!pending) return delivery;
+
+          const { value } = pending;
+          pending = undefined;
+          delivery = delivery.then(() => observer.next(value)).catch(fail);
+          return delivery;
+        };
+
+        return {
+          next: async (value) => {
+            if (timer !== undefined) {
+              context.clock.clearTimeout(timer);
+            }
+            pending = { value };
+            timer = context.clock.setTimeout(flush, operator.ms);
+          },
+          complete: async () => {
+            if (timer !== undefined) {
+              context.clock.clearTimeout(timer);
+            }
+            await flush();
+          },
+          dispose: () => {
+            if (timer !== undefined) {
+              context.clock.clearTimeout(timer);
+            }
+          },
+        };
+      });
+
+    case "throttle":
+      return operate(source, ({ observer }) => {
+        let openAt = -Infinity;
+        return {
+          next: async (value) => {
+            const now = context.clock.now();
+            if (now < openAt) return;
+
+            openAt = now + operator.ms;
+            await observer.next(value);
+          },
+        };
+      });
+
+    case "distinct":
+      return operate(source, ({ observer }) => {
+        const seen = new Set<string>();
+        return {
+          next: async (value) => {
+            const key = valueKey(value);
+            if (seen.has(key)) return;
+
+            seen.add(key);
+            await observer.next(value);
+          },
+        };
+      });
+
+    case "distinctUntilChanged":
+      return operate(source, ({ observer }) => {
+        let lastKey: string | undefined;
+        return {
+          next: async (value) => {
+            const key = valueKey(value);
+            if (key === lastKey) return;
+
+            lastKey = key;
+            await observer.next(value);
+          },
+        };
+      });
+
+    case "context":
+      if (!context.resolveOperator) {
+        throw new Error(
+          `Stream operator ${operator.key} can't be resolved without a context`
+        );
+      }
+      return applyOperator(
+        source,
+        context.resolveOperator(operator.key),
+        context
+      );
+
+    default:
+      throw new Error(
+        `Unknown stream operator: ${(operator as { type: string }).type}`
+      );
+  }
+}
+
+/**
+ * Apply stream operators in order
+ */
+export function applyOperators(
+  source: Stream,
+  operators: WorkflowStreamOperator[],
+  context: StreamOperatorContext
+): Stream {
+  return operators.reduce(
+    (stream, operator) => applyOperator(stream, operator, context),
+    source
+  );
+}
+
+/**
+ * Subscribe to a stream until it completes
+ *
+ * Rejects when the stream fails, when `onValue` throws, or when `signal` is
+ * aborted.
+ */
+export function drainStream(
+  stream: Stream,
+  onValue: (value: unknown) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener("abort", abort);
+      unsubscribe();
+      if (error === undefined) {
+        resolve();
+      } else {
+        reject(error);
+      }
+    };
+    const abort = () => settle(signal?.reason ?? new Error("Stream aborted"));
+    let unsubscribe = () => {};
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener("abort", abort);
+
+    unsubscribe = stream({
+      next: async (value) => {
+        if (settled) return;
+        await onValue(value);
+      },
+      complete: async () => settle(),
+      error: (error) => settle(error ?? new Error("Stream failed")),
+    });
+    if (settled) {
+      unsubscribe();
+    }
+  });
+}
+
+interface HubSubscriber {
+  matches(nodeId: string): boolean;
+  settledBy: string;
+  next(value: unknown): void;
+  end(error?: unknown): void;
+}
+
+/**
+ * Node outputs of a session, observed by its stream nodes
+ *
+ * Every node publishes its output when it completes, and settles once it
+ * won't publish any more in the current run, with the error it failed or
+ * paused with if any. Streams replay what was published before they
+ * subscribed. The hub is closed when the session run ends, which fails the
+ * streams still open.
+ */
+export class StreamHub {
+  private outputs: { nodeId: string; value: unknown }[] = [];
+  private settled = new Map<string, { error?: unknown }>();
+  private subscribers = new Set<HubSubscriber>();
+  private closedWith?: { error: unknown };
+
+  /**
+   * Publish the output of a node
+   */
+  publish(nodeId: string, value: unknown): void {
+    this.outputs.push({ nodeId, value });
+    for (const subscriber of this.subscribers) {
+      if (subscriber.matches(nodeId)) {
+        subscriber.next(value);
+      }
+    }
+  }
+
+  /**
+   * Mark a node as done publishing, completing the streams it ends
+   */
+  settle(nodeId: string, error?: unknown): void {
+    if (this.settled.has(nodeId)) return;
+
+    this.settled.set(nodeId, { error });
+    for (const subscriber of this.subscribers) {
+      if (subscriber.settledBy === nodeId) {
+        subscriber.end(error);
+      }
+    }
+  }
+
+  /**
+   * Forget the outputs of nodes about to run again, by node ID prefix
+   */
+  reset(prefix: string): void {
+    this.outputs = this.outputs.filter(
+      (output) => !output.nodeId.startsWith(prefix)
+    );
+    for (const nodeId of this.settled.keys()) {
+      if (nodeId.startsWith(prefix)) {
+        this.settled.delete(nodeId);
+      }
+    }
+  }
+
+  /**
+   * Fail the open streams and refuse new subscriptions
+   */
+  close(error: unknown): void {
+    this.closedWith = { error };
+    for (const subscriber of this.subscribers) {
+      subscriber.end(error);
+    }
+  }
+
+  /**
+   * Stream the outputs of a node
+   *
+   * Outputs of the node's loop iterations (`nodeId#<iteration>`) are
+   * included. The stream completes when `settledBy`, the node itself or an
+   * enclosing group, settles.
+   */
+  observe(nodeId: string, settledBy: string = nodeId): Stream {
+    return (observer) => {
+      let ended = false;
+      let delivery = Promise.resolve();
+      const deliver = (task: () => Promise<void> | void) => {
+        delivery = delivery
+          .then(() => (ended ? undefined : task()))
+          .catch((error) => {
+            ended = true;
+            observer.error(error);
+          });
+      };
+
+      const subscriber: HubSubscriber = {
+        matches: (publishedId) =>
+          publishedId === nodeId || publishedId.startsWith(`${nodeId}#`),
+        settledBy,
+        next: (value) => deliver(() => observer.next(value)),
+        end: (error) => {
+          this.subscribers.delete(subscriber);
+          deliver(() => {
+            ended = true;
+            if (error !== undefined) {
+              observer.error(error);
+              return;
+            }
+            return observer.complete();
+          });
+        },
+      };
+
+      for (const output of this.outputs) {
+        if (subscriber.matches(output.nodeId)) {
+          subscriber.next(output.value);
+        }
+      }
+
+      const settled = this.settled.get(settledBy);
+      if (settled) {
+        subscriber.end(settled.error);
+      } else if (this.closedWith) {
+        subscriber.end(this.closedWith.error);
+      } else {
+        this.subscribers.add(subscriber);
+      }
+
+      return () => {
+        ended = true;
+        this.subscribers.delete(subscriber);
+      };
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import type { ToolDefinition } from "@aaow/types";
+import { getContextData } from "../context";
+
+/**
+ * Tool argument binding
+ *
+ * A custom tool's `overridedInput` pins some of its arguments. The pinned
+ * fields are removed from the schema the model sees and merged into the
+ * arguments before the tool runs, so one registered tool can be specialised
+ * per node.
+ */
+
+/**
+ * Reference to a data item of an enclosing group's context, usable as an
+ * `overridedInput` field value
+ */
+export interface ContextValueRef {
+  $context: string;
+}
+
+function isContextValueRef(value: unknown): value is ContextValueRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ContextValueRef).$context === "string"
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Context keys referenced by an `overridedInput`
+ */
+export function getOverriddenInputContextKeys(overrides: unknown): string[] {
+  return isRecord(overrides)
+    ? Object.values(overrides).flatMap((value) =>
+        isContextValueRef(value) ? [value.$context] : []
+      )
+    : [];
+}
+
+/**
+ * Resolve the context references of an `overridedInput` against context data
+ */
+export function resolveOverriddenInput(
+  toolName: string,
+  overrides: unknown,
+  contextData: Record<string, unknown>
+): Record<string, unknown> {
+  if (!isRecord(overrides)) {
+    throw new Error(`Overridden input of tool ${toolName} must be an object`);
+  }
+
+  const input: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(overrides)) {
+    input[field] = isContextValueRef(value)
+      ? getContextData(value.$context, contextData)
+      : value;
+  }
+  return input;
+}
+
+/**
+ * Bind some arguments of a tool
+ */
+export function bindToolInput(
+  toolName: string,
+  toolDef: ToolDefinition,
+  boundInput: Record<string, unknown>
+): ToolDefinition {
+  const fields = Object.keys(boundInput);
+  const schema = toolDef.inputSchema;
+
+  let inputSchema: unknown;
+  if (schema instanceof z.ZodObject) {
+    const mask: Record<string, true> = Object.fromEntries(
+      fields.map((field) => [field, true])
+    );
+    inputSchema = schema.omit(mask);
+  } else if (isRecord(schema) && !("parse" in schema)) {
+    // A shape of Zod fields
+    inputSchema = Object.fromEntries(
+      Object.entries(schema).filter(([field]) => !fields.includes(field))
+    );
+  } else {
+    throw new Error(
+      `Input of tool ${toolName} isn't an object, its fields can't be overridden`
+    );
+  }
+
+  const { execute } = toolDef;
+  return {
+    ...toolDef,
+    inputSchema,
+    execute: execute
+      ? (input, options) =>
+          execute({ ...(input as object), ...boundInput }, options)
+      : undefined,
+  };
+}
@@ -1,3 +1,5 @@
+import { getContextData } from "../context";
+
 /**
  * Transform node executor
  *
@@ -9,7 +11,7 @@ type TransformFn = any; // Recursive type, using any for flexibility
 /**
  * Get value from object using path
  */
-function getValueByPath(data: any, path: string[] = []): any {
+export function getValueByPath(data: any, path: string[] = []): any {
   if (path.length === 0) {
     return data;
   }
@@ -27,7 +29,7 @@ function getValueByPath(data: any, path: string[] = []): any {
 /**
  * Set value in object using path
  */
-function setValueByPath(data: any, path: string[], value: any): void {
+export function setValueByPath(data: any, path: string[], value: any): void {
   if (path.length === 0) {
     return;
   }
@@ -45,16 +47,25 @@ function setValueByPath(data: any, path: string[], value: any): void {
 
 /**
  * Execute transform function
+ *
+ * `context` functions read the data items in `contextData`.
  */
 export async function executeTransform(
   fn: TransformFn,
   data: unknown,
-  basePath: string[] = []
+  basePath: string[] = [],
+  contextData: Record<string, unknown> = {}
 ): Promise<unknown> {
+  const execute = (nextFn: TransformFn, nextData: unknown, path: string[]) =>
+    executeTransform(nextFn, nextData, path, contextData);
+
   switch (fn.type) {
     case "const":
       return fn.value;
 
+    case "context":
+      return getValueByPath(getContextData(fn.key, contextData), fn.path);
+
     case "get": {
       const path = [...basePath, ...(fn.path || [])];
       return getValueByPath(data, path);
@@ -62,7 +73,7 @@ export async function executeTransform(
 
     case "with": {
       const newBasePath = [...basePath, ...fn.path];
-      return executeTransform(fn.fn, data, newBasePath);
+      return execute(fn.fn, data, newBasePath);
     }
 
     case "if": {
@@ -73,14 +84,14 @@ export async function executeTransform(
       if (typeof value === "object" && value !== null && "tag" in value) {
         const tag = (value as any).tag;
         if (tag in fn.branches) {
-          return executeTransform(fn.branches[tag], data, basePath);
+          return execute(fn.branches[tag], data, basePath);
         }
       }
 
       // Handle enum/string value
       const stringValue = String(value);
       if (stringValue in fn.branches) {
-        return executeTransform(fn.branches[stringValue], data, basePath);
+        return execute(fn.branches[stringValue], data, basePath);
       }
 
       throw new Error(`No branch found for value: ${stringValue}`);
@@ -96,7 +107,7 @@ export async function executeTransform(
 
       return Promise.all(
         array.map((item) =>
-          executeTransform(
+          execute(
             fn.fn,
             typeof data === "object" && data !== null
               ? { ...(data as any), item }
@@ -111,7 +122,7 @@ export async function executeTransform(
       const result: Record<string, unknown> = {};
 
       for (const [key, valueFn] of Object.entries(fn.value)) {
-        result[key] = await executeTransform(valueFn, data, basePath);
+        result[key] = await execute(valueFn, data, basePath);
       }
 
       return result;
@@ -123,7 +134,7 @@ export async function executeTransform(
       };
 
       for (const [key, valueFn] of Object.entries(fn.value)) {
-        result[key] = await executeTransform(valueFn, data, basePath);
+        result[key] = await execute(valueFn, data, basePath);
       }
 
       return result;
@@ -0,0 +1,570 @@
+import type {
+  LLMExecutionResult,
+  ModelPricing,
+  StorageAdapter,
+  Workflow,
+  WorkflowContextItem,
+  WorkflowNode,
+  WorkflowNodeGenerator,
+  WorkflowNodeGroup,
+  WorkflowNodeLLM,
+} from "@aaow/types";
+import { REVIEWER_MAX_RETRIES } from "./executors/review";
+import { resolveMessageType } from "./message-type";
+import { DEFAULT_MAX_TOKENS, computeCost, estimateTokens } from "./pricing";
+
+/**
+ * Workflow cost forecasting
+ *
+ * Walks a workflow graph before it runs to bound what its LLM calls may
+ * spend. The calls of each LLM node are sized from the usage of its past
+ * executions when there are some, and from the length of its prompt
+ * otherwise.
+ */
+
+/**
+ * Range of a quantity, from the cheapest run to the most expensive one
+ *
+ * `max` is `Infinity` when nothing bounds the quantity, as for the calls
+ * generators make.
+ */
+export interface CostRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Estimate of the LLM calls of a node
+ */
+export interface LLMNodeCostEstimate {
+  /** Number of LLM calls */
+  llmCalls: CostRange;
+
+  /** Tokens used by the calls */
+  tokens: CostRange;
+
+  /** Whether the calls are sized from past executions or from the prompt */
+  basis: "history" | "heuristic";
+}
+
+/**
+ * Estimate of what a workflow run may spend
+ */
+export interface WorkflowCostEstimate {
+  /** Number of LLM calls */
+  llmCalls: CostRange;
+
+  /** Tokens used by the calls */
+  tokens: CostRange;
+
+  /** Cost of the tokens, when the model is priced */
+  cost?: CostRange;
+
+  /**
+   * Estimates of the LLM nodes by node ID, nodes of called workflows being
+   * prefixed by the ID of the calling node and a slash
+   */
+  nodes: Record<string, LLMNodeCostEstimate>;
+}
+
+export interface WorkflowCostEstimateOptions {
+  storage: StorageAdapter;
+
+  /** Pricing of the model, to estimate the cost */
+  pricing?: ModelPricing;
+
+  /** Cap on generated tokens per call when the node sets none */
+  defaultMaxTokens?: number;
+
+  /** Past sessions of each workflow to size the calls from (default: 20) */
+  historySessions?: number;
+}
+
+const DEFAULT_HISTORY_SESSIONS = 20;
+
+interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface NodeEstimate {
+  llmCalls: CostRange;
+  min: Usage;
+  max: Usage;
+  basis: LLMNodeCostEstimate["basis"];
+}
+
+type Estimate = Record<string, NodeEstimate>;
+
+interface ForecastScope {
+  options: WorkflowCostEstimateOptions;
+  inputTokens: number;
+  workflowId: string;
+  workflow: Workflow;
+
+  /** Runtime IDs of the nodes that ran in each past session of the workflow */
+  sessionNodeIds: { sessionId: string; nodeIds: string[] }[];
+
+  callStack: string[];
+
+  /** Items of the enclosing groups' contexts, with the group declaring them */
+  contextItems: Record<
+    string,
+    { item: WorkflowContextItem; group: WorkflowNodeGroup }
+  >;
+
+  /** Nodes being estimated through `nodeRef` context items or generators */
+  referencedNodes: WorkflowNode[];
+
+  /** Nodes of the enclosing group, which generators may call */
+  siblings?: WorkflowNodeGroup["nodes"];
+}
+
+const NO_USAGE: Usage = { promptTokens: 0, completionTokens: 0 };
+
+function addUsage(a: Usage, b: Usage): Usage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+  };
+}
+
+/**
+ * Multiply a quantity, none staying none even an unbounded number of times
+ */
+function scale(value: number, times: number): number {
+  return value === 0 ? 0 : value * times;
+}
+
+function scaleUsage(usage: Usage, times: number): Usage {
+  return {
+    promptTokens: scale(usage.promptTokens, times),
+    completionTokens: scale(usage.completionTokens, times),
+  };
+}
+
+function totalTokens(usage: Usage): number {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+/**
+ * Change the bounds of every node of an estimate
+ */
+function mapEstimate(
+  estimate: Estimate,
+  minTimes: number,
+  maxTimes: number
+): Estimate {
+  return Object.fromEntries(
+    Object.entries(estimate).map(([nodeId, node]) => [
+      nodeId,
+      {
+        ...node,
+        llmCalls: {
+          min: scale(node.llmCalls.min, minTimes),
+          max: scale(node.llmCalls.max, maxTimes),
+        },
+        min: scaleUsage(node.min, minTimes),
+        max: scaleUsage(node.max, maxTimes),
+      },
+    ])
+  );
+}
+
+/**
+ * Estimate the range of what a run of a workflow may spend on LLM calls
+ *
+ * The lower bound assumes every unconditional node runs once and succeeds
+ * at its first attempt. The upper bound assumes every retry, review round,
+ * loop iteration and fallback is used, each call generating its maximum of
+ * tokens. It is unbounded when generators may call LLM nodes, as they may
+ * call them any number of times. Without past executions, nodes are assumed
+ * to be prompted with the workflow input.
+ */
+export async function estimateWorkflowCost(
+  workflowId: string,
+  workflow: Workflow,
+  input: unknown,
+  options: WorkflowCostEstimateOptions
+): Promise<WorkflowCostEstimate> {
+  const inputText =
+    typeof input === "string" ? input : JSON.stringify(input, null, 2) ?? "";
+
+  const estimate = await estimateWorkflow(workflowId, workflow, {
+    options,
+    inputTokens: estimateTokens(inputText),
+    callStack: [],
+    referencedNodes: [],
+  });
+
+  const nodes = Object.values(estimate);
+  const min = nodes.reduce((sum, node) => addUsage(sum, node.min), NO_USAGE);
+  const max = nodes.reduce((sum, node) => addUsage(sum, node.max), NO_USAGE);
+  const { pricing } = options;
+
+  return {
+    llmCalls: {
+      min: nodes.reduce((sum, node) => sum + node.llmCalls.min, 0),
+      max: nodes.reduce((sum, node) => sum + node.llmCalls.max, 0),
+    },
+    tokens: { min: totalTokens(min), max: totalTokens(max) },
+    cost: pricing
+      ? {
+          min: computeCost({ ...min, totalTokens: totalTokens(min) }, pricing),
+          max: computeCost({ ...max, totalTokens: totalTokens(max) }, pricing),
+        }
+      : undefined,
+    nodes: Object.fromEntries(
+      Object.entries(estimate).map(([nodeId, node]) => [
+        nodeId,
+        {
+          llmCalls: node.llmCalls,
+          tokens: { min: totalTokens(node.min), max: totalTokens(node.max) },
+          basis: node.basis,
+        },
+      ])
+    ),
+  };
+}
+
+async function estimateWorkflow(
+  workflowId: string,
+  workflow: Workflow,
+  scope: Pick<
+    ForecastScope,
+    "options" | "inputTokens" | "callStack" | "referencedNodes"
+  >
+): Promise<Estimate> {
+  if (scope.callStack.includes(workflowId)) {
+    throw new Error(
+      `Workflow ${workflowId} calls itself, its cost can't be bounded`
+    );
+  }
+
+  const { storage } = scope.options;
+  const sessions = await storage.listSessions({
+    where: { workflowId },
+    orderBy: { field: "createdAt", direction: "desc" },
+    limit: scope.options.historySessions ?? DEFAULT_HISTORY_SESSIONS,
+  });
+  const sessionNodeIds: ForecastScope["sessionNodeIds"] = [];
+  for (const session of sessions) {
+    const state = await storage.getExecutionState(session.id);
+    sessionNodeIds.push({
+      sessionId: session.id,
+      nodeIds: Object.keys(state?.nodeStates ?? {}),
+    });
+  }
+
+  return estimateNode(workflow.root, "root", {
+    ...scope,
+    workflowId,
+    workflow,
+    sessionNodeIds,
+    callStack: [...scope.callStack, workflowId],
+    contextItems: {},
+  });
+}
+
+async function estimateNode(
+  node: WorkflowNode,
+  nodeId: string,
+  scope: ForecastScope
+): Promise<Estimate> {
+  switch (node.type) {
+    case "llm":
+      return { [nodeId]: await estimateLLMNode(node, nodeId, scope) };
+
+    case "group":
+      return estimateGroupNode(node, nodeId, scope);
+
+    case "callWorkflow": {
+      const scoped = scope.contextItems[node.workflowRef];
+      if (scoped?.item.type === "nodeRef") {
+        const target = scoped.group.nodes[scoped.item.nodeId];
+        if (!target) {
+          throw new Error(`Node ${scoped.item.nodeId} not found`);
+        }
+        if (scope.referencedNodes.includes(target)) {
+          throw new Error(
+            `Node ${scoped.item.nodeId} calls itself, its cost can't be bounded`
+          );
+        }
+        return estimateNode(target, `${nodeId}.${node.workflowRef}`, {
+          ...scope,
+          referencedNodes: [...scope.referencedNodes, target],
+        });
+      }
+
+      return estimateCalledWorkflow(
+        scoped?.item.type === "workflowRef"
+          ? scoped.item.workflowId
+          : node.workflowRef,
+        nodeId,
+        scope
+      );
+    }
+
+    case "generator":
+      return estimateGeneratorNode(node, nodeId, scope);
+
+    default:
+      // Transforms and streams don't call LLMs
+      return {};
+  }
+}
+
+async function estimateCalledWorkflow(
+  workflowId: string,
+  nodeId: string,
+  scope: ForecastScope
+): Promise<Estimate> {
+  const called = await scope.options.storage.getWorkflow(workflowId);
+  if (!called) {
+    throw new Error(`Workflow ${workflowId} not found`);
+  }
+
+  const estimate = await estimateWorkflow(workflowId, called.definition, scope);
+  return Object.fromEntries(
+    Object.entries(estimate).map(([calledId, calledNode]) => [
+      `${nodeId}/${calledId}`,
+      calledNode,
+    ])
+  );
+}
+
+/**
+ * Estimate the calls a generator may make
+ *
+ * A generator may call its sibling nodes and the `nodeRef` and
+ * `workflowRef` items it can access any number of times, so the LLM calls
+ * of everything it can call are unbounded.
+ */
+async function estimateGeneratorNode(
+  node: WorkflowNodeGenerator,
+  nodeId: string,
+  scope: ForecastScope
+): Promise<Estimate> {
+  scope = { ...scope, referencedNodes: [...scope.referencedNodes, node] };
+
+  let estimate: Estimate = {};
+  const estimateCallee = async (name: string) => {
+    // Calls share the estimate of their callee, whatever their `#n` suffix
+    const calleeId = `${nodeId}.${name}`;
+    const scoped = node.contextAccess?.includes(name)
+      ? scope.contextItems[name]
+      : undefined;
+
+    if (scoped?.item.type === "nodeRef") {
+      const target = scoped.group.nodes[scoped.item.nodeId];
+      if (!target) {
+        throw new Error(`Node ${scoped.item.nodeId} not found`);
+      }
+      return scope.referencedNodes.includes(target)
+        ? {}
+        : estimateNode(target, calleeId, {
+            ...scope,
+            referencedNodes: [...scope.referencedNodes, target],
+          });
+    }
+
+    if (scoped?.item.type === "workflowRef") {
+      return estimateCalledWorkflow(scoped.item.workflowId, calleeId, scope);
+    }
+
+    const sibling = scope.siblings?.[name];
+    // Nodes already called up the chain are unbounded already
+    return !sibling || scope.referencedNodes.includes(sibling)
+      ? {}
+      : estimateNode(sibling, calleeId, {
+          ...scope,
+          referencedNodes: [...scope.referencedNodes, sibling],
+        });
+  };
+
+  const names = new Set([
+    ...Object.keys(scope.siblings ?? {}),
+    ...(node.contextAccess ?? []),
+  ]);
+  for (const name of names) {
+    estimate = {
+      ...estimate,
+      ...mapEstimate(await estimateCallee(name), 0, Infinity),
+    };
+  }
+  return estimate;
+}
+
+/**
+ * Estimate a group from its nodes
+ *
+ * Nodes reached only through conditional edges, and the fallback node, may
+ * not run at all. Nodes without incoming edges, other than the entry point
+ * and the fallback node, only run when called through a `nodeRef` item or
+ * by a generator, and are estimated with their callers. Loop iterations and
+ * group retries repeat the whole group.
+ */
+async function estimateGroupNode(
+  node: WorkflowNodeGroup,
+  nodeId: string,
+  scope: ForecastScope
+): Promise<Estimate> {
+  const fallback = node.onError?.fallback;
+  const fallbackNodeId = fallback?.type === "node" ? fallback.nodeId : undefined;
+  const runs =
+    (node.loop?.maxIterations ?? 1) * ((node.onError?.retries ?? 0) + 1);
+
+  const contextItems = { ...scope.contextItems };
+  for (const [key, item] of Object.entries(node.context?.items || {})) {
+    contextItems[key] = { item, group: node };
+  }
+  scope = { ...scope, contextItems, siblings: node.nodes };
+
+  let estimate: Estimate = {};
+  for (const [childId, child] of Object.entries(node.nodes)) {
+    const incoming = node.edges.filter((edge) => edge.to === childId);
+    if (
+      !child ||
+      (incoming.length === 0 &&
+        childId !== node.entryPoint &&
+        childId !== fallbackNodeId)
+    ) {
+      continue;
+    }
+
+    const childEstimate = await estimateNode(
+      child,
+      `${nodeId}.${childId}`,
+      scope
+    );
+    const optional =
+      childId === fallbackNodeId ||
+      (incoming.length > 0 && incoming.every((edge) => edge.condition));
+
+    estimate = {
+      ...estimate,
+      ...mapEstimate(
+        childEstimate,
+        optional ? 0 : 1,
+        childId === fallbackNodeId ? 1 : runs
+      ),
+    };
+  }
+  return estimate;
+}
+
+/**
+ * Estimate an LLM node from its retries and reviewers
+ *
+ * Each failed generation, and each rejection by the reviewers, starts
+ * another round of generation and reviews, up to `maxRetries + 1` rounds.
+ * Structured output that doesn't parse is also retried within a generation
+ * call.
+ */
+async function estimateLLMNode(
+  node: WorkflowNodeLLM,
+  nodeId: string,
+  scope: ForecastScope
+): Promise<NodeEstimate> {
+  const maxTokens =
+    node.maxTokens ?? scope.options.defaultMaxTokens ?? DEFAULT_MAX_TOKENS;
+  const reviewers = node.reviewers || [];
+  const rounds = node.maxRetries + 1;
+  const llmCalls = {
+    min: 1 + reviewers.length,
+    max: rounds * (1 + reviewers.length),
+  };
+
+  const history = await getCallUsageHistory(nodeId, scope);
+  if (history) {
+    return {
+      llmCalls,
+      min: scaleUsage(history.min, llmCalls.min),
+      max: scaleUsage(history.max, llmCalls.max),
+      basis: "history",
+    };
+  }
+
+  const isText =
+    resolveMessageType(node.outputType, scope.workflow.typedefs).type ===
+    "string";
+  const generationAttempts = isText ? 1 : node.maxRetries + 1;
+  const generationPrompt =
+    estimateTokens(node.systemPrompt ?? "") + scope.inputTokens;
+
+  let min: Usage = { promptTokens: generationPrompt, completionTokens: 0 };
+  let roundMax = scaleUsage(
+    { promptTokens: generationPrompt, completionTokens: maxTokens },
+    generationAttempts
+  );
+  for (const reviewer of reviewers) {
+    // Reviewers read the input and the generated output
+    const reviewPrompt =
+      estimateTokens(reviewer.systemPrompt ?? "") + scope.inputTokens;
+    min = addUsage(min, { promptTokens: reviewPrompt, completionTokens: 0 });
+    roundMax = addUsage(
+      roundMax,
+      scaleUsage(
+        {
+          promptTokens: reviewPrompt + maxTokens,
+          completionTokens: maxTokens,
+        },
+        REVIEWER_MAX_RETRIES + 1
+      )
+    );
+  }
+
+  return {
+    llmCalls,
+    min,
+    max: scaleUsage(roundMax, rounds),
+    basis: "heuristic",
+  };
+}
+
+/**
+ * Usage of the smallest and largest past LLM call of a node
+ *
+ * Includes the calls of every loop iteration and repeated call of the node,
+ * whose node IDs carry a `#n` suffix.
+ */
+async function getCallUsageHistory(
+  nodeId: string,
+  scope: ForecastScope
+): Promise<{ min: Usage; max: Usage } | undefined> {
+  const { storage } = scope.options;
+  const executions: LLMExecutionResult[] = [];
+  for (const { sessionId, nodeIds } of scope.sessionNodeIds) {
+    const runNodeIds = nodeIds.filter(
+      (runNodeId) => runNodeId.replace(/#\d+/g, "") === nodeId
+    );
+    for (const runNodeId of runNodeIds) {
+      executions.push(
+        ...(await storage.getNodeLLMExecutions(sessionId, runNodeId))
+      );
+    }
+  }
+
+  let history: { min: Usage; max: Usage } | undefined;
+  for (const { usage } of executions) {
+    if (!usage) {
+      continue;
+    }
+
+    const call = {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    };
+    if (!history) {
+      history = { min: call, max: call };
+      continue;
+    }
+    if (totalTokens(call) < totalTokens(history.min)) {
+      history.min = call;
+    }
+    if (totalTokens(call) > totalTokens(history.max)) {
+      history.max = call;
+    }
+  }
+  return history;
+}
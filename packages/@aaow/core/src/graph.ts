@@ -0,0 +1,194 @@
+import type {
+  WorkflowEdge,
+  WorkflowNode,
+  WorkflowNodeGroup,
+} from "@aaow/types";
+import { getValueByPath, setValueByPath } from "./executors/transform";
+
+/**
+ * Graph helpers for group node scheduling
+ *
+ * A group's entry and exit points may either name a node in `nodes` or be
+ * virtual: a virtual entry emits the group input, and a virtual exit collects
+ * its incoming edges into the group output.
+ */
+
+/**
+ * Get all edges pointing at a node
+ */
+export function getIncomingEdges(
+  group: WorkflowNodeGroup,
+  nodeId: string
+): WorkflowEdge[] {
+  return group.edges.filter((e) => e.to === nodeId);
+}
+
+/**
+ * Get all edges leaving a node
+ */
+export function getOutgoingEdges(
+  group: WorkflowNodeGroup,
+  nodeId: string
+): WorkflowEdge[] {
+  return group.edges.filter((e) => e.from === nodeId);
+}
+
+/**
+ * Find a node that is part of a cycle, if any
+ */
+export function findCycle(group: WorkflowNodeGroup): string | undefined {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (nodeId: string): string | undefined => {
+    if (visiting.has(nodeId)) return nodeId;
+    if (visited.has(nodeId)) return undefined;
+
+    visiting.add(nodeId);
+    for (const edge of getOutgoingEdges(group, nodeId)) {
+      const cycleNodeId = visit(edge.to);
+      if (cycleNodeId) return cycleNodeId;
+    }
+    visiting.delete(nodeId);
+    visited.add(nodeId);
+
+    return undefined;
+  };
+
+  for (const edge of group.edges) {
+    const cycleNodeId = visit(edge.from);
+    if (cycleNodeId) return cycleNodeId;
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the nodes reachable through edges from the given nodes
+ */
+export function findReachableNodes(
+  group: WorkflowNodeGroup,
+  fromNodeIds: Iterable<string>
+): string[] {
+  const reachable = new Set<string>();
+  const queue = [...fromNodeIds];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const edge of getOutgoingEdges(group, nodeId)) {
+      if (!reachable.has(edge.to)) {
+        reachable.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return [...reachable];
+}
+
+/**
+ * Find the definition of a nested node from its ID relative to a node,
+ * ignoring loop iteration and call suffixes ("inner#2.step" -> inner's step)
+ */
+export function getDescendantNode(
+  node: WorkflowNode,
+  relativeId: string
+): WorkflowNode | undefined {
+  let current: WorkflowNode | undefined = node;
+  for (const segment of relativeId ? relativeId.split(".") : []) {
+    if (current?.type !== "group") {
+      return undefined;
+    }
+    current = current.nodes[segment.replace(/#\d+$/, "")];
+  }
+  return current;
+}
+
+/**
+ * Split an edge field name into path segments ("foo.bar" -> ["foo", "bar"])
+ */
+export function parseFieldPath(fieldName?: string): string[] {
+  return fieldName ? fieldName.split(".") : [];
+}
+
+/**
+ * Extract the value an edge carries from its source node output
+ *
+ * `previousNodeMessageOutputFieldName` is resolved like a transform `get`
+ * path, so nested fields can be addressed with dots.
+ */
+export function getEdgeValue(edge: WorkflowEdge, output: unknown): unknown {
+  return getValueByPath(
+    output,
+    parseFieldPath(edge.previousNodeMessageOutputFieldName)
+  );
+}
+
+/**
+ * Check whether an edge is taken for the given source node output
+ *
+ * Mirrors the transform `if` function: the value at `condition.path` matches
+ * by its `tag` when it is a tagged union, and by its string value otherwise.
+ */
+export function isEdgeTaken(edge: WorkflowEdge, output: unknown): boolean {
+  if (!edge.condition) {
+    return true;
+  }
+
+  const { path, match } = edge.condition;
+  const value = getValueByPath(output, path);
+
+  if (typeof value === "object" && value !== null && "tag" in value) {
+    if (match.includes(String((value as any).tag))) {
+      return true;
+    }
+  }
+
+  return match.includes(String(value));
+}
+
+/**
+ * Build a node input from its incoming edges
+ *
+ * An edge with a `messageInputFieldName` places its value under that field
+ * (dots address nested fields) of the input object. An edge without one
+ * passes its value through when it is the only incoming edge, and is merged
+ * into the input object otherwise.
+ */
+export function buildNodeInput(
+  edges: WorkflowEdge[],
+  outputs: Map<string, unknown>
+): unknown {
+  if (edges.length === 1 && !edges[0].messageInputFieldName) {
+    return getEdgeValue(edges[0], outputs.get(edges[0].from));
+  }
+
+  const input: Record<string, unknown> = {};
+  for (const edge of edges) {
+    const value = getEdgeValue(edge, outputs.get(edge.from));
+
+    if (!edge.messageInputFieldName) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error(
+          `Edge ${edge.from} -> ${edge.to} must set messageInputFieldName to join a non-object value`
+        );
+      }
+      for (const [key, fieldValue] of Object.entries(value)) {
+        if (key in input) {
+          throw new Error(`Duplicate input field "${key}" for node ${edge.to}`);
+        }
+        input[key] = fieldValue;
+      }
+      continue;
+    }
+
+    const path = parseFieldPath(edge.messageInputFieldName);
+    if (getValueByPath(input, path) !== undefined) {
+      throw new Error(
+        `Duplicate input field "${edge.messageInputFieldName}" for node ${edge.to}`
+      );
+    }
+    setValueByPath(input, path, value);
+  }
+  return input;
+}
@@ -64,30 +64,80 @@
 export { createApp, type App, type AppOptions } from "./app";
 
 // Workflow engine
-export { WorkflowEngine, type WorkflowEngineOptions } from "./engine";
+export {
+  WorkflowEngine,
+  type WorkflowEngineOptions,
+  type WorkflowRunResult,
+  type SessionRecoveryPolicy,
+  type RecoveredSession,
+  type MessageValidationMode,
+} from "./engine";
+
+// Workflow checker
+export {
+  checkWorkflow,
+  type WorkflowDiagnostic,
+  type WorkflowDiagnosticCode,
+} from "./checker";
+export { BudgetExhaustedError, WorkflowCheckError } from "./errors";
 
 // Budget pool manager
-export { BudgetPoolManager } from "./budget";
+export { BudgetPoolManager, type BudgetPoolLimits } from "./budget";
+export { computeCost } from "./pricing";
+export {
+  estimateWorkflowCost,
+  type CostRange,
+  type LLMNodeCostEstimate,
+  type WorkflowCostEstimate,
+  type WorkflowCostEstimateOptions,
+} from "./forecast";
+
+// Stream runtime
+export { FakeClock, systemClock, type Clock } from "./clock";
+export {
+  fileLinesSource,
+  serverSentEventsSource,
+  type FileLinesSourceOptions,
+  type ServerSentEventsSourceOptions,
+  type ServerSentEvent,
+} from "./stream-sources";
 
 // Executors
 export { executeTransform } from "./executors/transform";
 export { executeLLM, executeLLMWithSchema } from "./executors/llm";
 export type { LLMExecutorOptions } from "./executors/llm";
+export type { RetryIncreasePolicy } from "./executors/intrinsic-tools";
 
 // Schemas
 export * from "./schemas";
 
+// Message type compiler
+export {
+  compileMessageType,
+  compileMessageTypeToJsonSchema,
+  resolveMessageType,
+  type MessageJsonSchema,
+} from "./message-type";
+
 // Re-export types from @aaow/types for convenience
 export type {
   Workflow,
   WorkflowNode,
   WorkflowNodeGroup,
+  WorkflowNodeGroupLoop,
+  WorkflowNodeGroupErrorHandler,
+  WorkflowNodeGroupFallback,
   WorkflowNodeLLM,
   WorkflowNodeTransform,
   WorkflowNodeCallWorkflow,
+  WorkflowCallBudget,
   WorkflowNodeStream,
+  WorkflowStreamSource,
+  WorkflowStreamOperator,
   WorkflowNodeGenerator,
   WorkflowEdge,
+  WorkflowEdgeCondition,
+  WorkflowNodeMessageType,
   WorkflowContext,
   WorkflowContextItem,
   Session,
@@ -96,18 +146,34 @@ export type {
   ToolRegistry,
   ToolDefinition,
   ToolProvider,
+  StreamSourceContext,
+  StreamSourceFactory,
+  StreamSourceRegistry,
+  GeneratorHandle,
+  WorkflowGenerator,
+  GeneratorRegistry,
   LLMConfig,
   LLMExecutionResult,
   ExecutionContext,
   WorkflowExecutionState,
+  SessionLease,
   NodeExecutionState,
   NodeExecutionStatus,
   BudgetPool,
   BudgetPoolStatus,
+  BudgetUnit,
+  BudgetPeriod,
+  BudgetRateLimit,
+  BudgetUsageRecord,
+  ModelPricing,
+  PricingRegistry,
   ApprovalRequest,
   ApprovalType,
   ApprovalStatus,
+  Incident,
+  IncidentSeverity,
   StoredWorkflow,
   ToolCall,
   ToolCallLog,
+  StreamEvent,
 } from "@aaow/types";
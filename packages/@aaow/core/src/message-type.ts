@@ -0,0 +1,237 @@
+import type { Workflow, WorkflowNodeMessageType } from "@aaow/types";
+import { z } from "zod";
+
+/**
+ * Compiler from workflow message types to runtime schemas
+ *
+ * Compiles a `WorkflowNodeMessageType` into a Zod schema for validation, or
+ * into a JSON Schema for LLM providers, APIs and forms. Field descriptions
+ * are carried into both.
+ *
+ * A tagged union value carries its variant name in `tag`. The fields of an
+ * object variant sit next to the tag; any other variant type is held in
+ * `value`.
+ */
+
+type Typedefs = Workflow["typedefs"];
+
+type ObjectFields = Extract<
+  WorkflowNodeMessageType,
+  { type: "object" }
+>["value"];
+
+/**
+ * JSON Schema document
+ */
+export type MessageJsonSchema = Record<string, unknown>;
+
+/**
+ * Follow `ref` types until reaching a concrete message type
+ */
+export function resolveMessageType(
+  type: WorkflowNodeMessageType,
+  typedefs: Typedefs = {}
+): Exclude<WorkflowNodeMessageType, { type: "ref" }> {
+  const seen = new Set<string>();
+  let resolved = type;
+  while (resolved.type === "ref") {
+    if (seen.has(resolved.ref)) {
+      throw new Error(`Circular type reference: ${resolved.ref}`);
+    }
+    seen.add(resolved.ref);
+
+    const typedef = typedefs[resolved.ref];
+    if (!typedef) {
+      throw new Error(`Unknown type reference: ${resolved.ref}`);
+    }
+    resolved = typedef;
+  }
+  return resolved;
+}
+
+/**
+ * Get the fields stored next to the tag of a tagged union variant
+ */
+function getVariantFields(
+  variant: { description: string; type: WorkflowNodeMessageType },
+  typedefs: Typedefs
+): ObjectFields {
+  const variantType = resolveMessageType(variant.type, typedefs);
+  if (variantType.type === "object") {
+    return variantType.value;
+  }
+  return { value: variant };
+}
+
+/**
+ * Compile a message type into a Zod schema
+ *
+ * `ref` types are resolved against `typedefs` lazily, so typedefs may refer
+ * to themselves.
+ */
+export function compileMessageType(
+  type: WorkflowNodeMessageType,
+  typedefs: Typedefs = {}
+): z.ZodTypeAny {
+  const refs = new Map<string, z.ZodTypeAny>();
+
+  const compileFields = (fields: ObjectFields): z.ZodRawShape => {
+    const shape: z.ZodRawShape = {};
+    for (const [name, field] of Object.entries(fields)) {
+      if (field) {
+        shape[name] = compile(field.type).describe(field.description);
+      }
+    }
+    return shape;
+  };
+
+  const compile = (type: WorkflowNodeMessageType): z.ZodTypeAny => {
+    switch (type.type) {
+      case "string":
+        return z.string();
+
+      case "enum":
+        return z.enum(type.value as [string, ...string[]]);
+
+      case "array":
+        return z.array(compile(type.of));
+
+      case "optional":
+        return compile(type.of).optional();
+
+      case "object":
+        return z.object(compileFields(type.value));
+
+      case "taggedUnion": {
+        const variants: z.ZodTypeAny[] = [];
+        for (const [tag, variant] of Object.entries(type.value)) {
+          if (!variant) continue;
+
+          const shape = compileFields(getVariantFields(variant, typedefs));
+          variants.push(
+            z
+              .object({ tag: z.literal(tag), ...shape })
+              .describe(variant.description)
+          );
+        }
+
+        if (variants.length < 2) {
+          return variants[0] ?? z.never();
+        }
+        return z.union(
+          variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
+        );
+      }
+
+      case "ref": {
+        let schema = refs.get(type.ref);
+        if (!schema) {
+          const typedef = typedefs[type.ref];
+          if (!typedef) {
+            throw new Error(`Unknown type reference: ${type.ref}`);
+          }
+
+          let compiled: z.ZodTypeAny | undefined;
+          schema = z.lazy(() => (compiled ??= compile(typedef)));
+          refs.set(type.ref, schema);
+        }
+        return schema;
+      }
+    }
+  };
+
+  return compile(type);
+}
+
+/**
+ * Compile a message type into a JSON Schema
+ *
+ * Each referenced typedef is emitted once under `$defs` and pointed to with
+ * `$ref`, so typedefs may refer to themselves. Optional object fields are
+ * left out of `required`.
+ */
+export function compileMessageTypeToJsonSchema(
+  type: WorkflowNodeMessageType,
+  typedefs: Typedefs = {}
+): MessageJsonSchema {
+  const defs: Record<string, MessageJsonSchema> = {};
+
+  const compileObject = (
+    fields: ObjectFields,
+    extra: Record<string, MessageJsonSchema> = {}
+  ): MessageJsonSchema => {
+    const properties: Record<string, MessageJsonSchema> = { ...extra };
+    const required = Object.keys(extra);
+
+    for (const [name, field] of Object.entries(fields)) {
+      if (!field) continue;
+
+      properties[name] = {
+        ...compile(field.type),
+        description: field.description,
+      };
+      if (resolveMessageType(field.type, typedefs).type !== "optional") {
+        required.push(name);
+      }
+    }
+
+    return {
+      type: "object",
+      properties,
+      required,
+      additionalProperties: false,
+    };
+  };
+
+  const compile = (type: WorkflowNodeMessageType): MessageJsonSchema => {
+    switch (type.type) {
+      case "string":
+        return { type: "string" };
+
+      case "enum":
+        return { type: "string", enum: type.value };
+
+      case "array":
+        return { type: "array", items: compile(type.of) };
+
+      case "optional":
+        // JSON has no undefined: optionality shows in the enclosing object
+        return compile(type.of);
+
+      case "object":
+        return compileObject(type.value);
+
+      case "taggedUnion": {
+        const variants: MessageJsonSchema[] = [];
+        for (const [tag, variant] of Object.entries(type.value)) {
+          if (!variant) continue;
+
+          variants.push({
+            ...compileObject(getVariantFields(variant, typedefs), {
+              tag: { type: "string", const: tag },
+            }),
+            description: variant.description,
+          });
+        }
+        return { anyOf: variants };
+      }
+
+      case "ref": {
+        if (!(type.ref in defs)) {
+          const typedef = typedefs[type.ref];
+          if (!typedef) {
+            throw new Error(`Unknown type reference: ${type.ref}`);
+          }
+
+          // Reserve the entry first so recursive refs stop here
+          defs[type.ref] = {};
+          defs[type.ref] = compile(typedef);
+        }
+        return { $ref: `#/$defs/${type.ref}` };
+      }
+    }
+  };
+
+  const schema = compile(type);
+  return Object.keys(defs).length > 0 ? { ...schema, $defs: defs } : schema;
+}
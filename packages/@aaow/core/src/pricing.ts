@@ -0,0 +1,56 @@
+import type { LLMExecutionResult, ModelPricing } from "@aaow/types";
+
+/**
+ * Compute the cost of an LLM execution's token usage
+ *
+ * Cached prompt tokens are priced at the cached input rate, the other
+ * prompt tokens at the input rate.
+ */
+export function computeCost(
+  usage: NonNullable<LLMExecutionResult["usage"]>,
+  pricing: ModelPricing
+): number {
+  const cachedTokens = usage.cachedPromptTokens ?? 0;
+  const cachedRate =
+    pricing.cachedInputPerMillionTokens ?? pricing.inputPerMillionTokens;
+
+  return (
+    ((usage.promptTokens - cachedTokens) * pricing.inputPerMillionTokens +
+      cachedTokens * cachedRate +
+      usage.completionTokens * pricing.outputPerMillionTokens) /
+    1_000_000
+  );
+}
+
+/**
+ * Cap on generated tokens per LLM call when neither the node nor the app
+ * sets one
+ */
+export const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Conservative estimate of the number of tokens in a text, at about three
+ * characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+/**
+ * Upper bound of the token usage of an LLM call
+ *
+ * Each attempt sends the prompt and generates up to `maxTokens`.
+ */
+export function estimateMaxUsage(
+  prompt: string,
+  maxTokens: number,
+  attempts = 1
+): NonNullable<LLMExecutionResult["usage"]> {
+  const promptTokens = estimateTokens(prompt) * attempts;
+  const completionTokens = maxTokens * attempts;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
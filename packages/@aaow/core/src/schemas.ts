@@ -76,6 +76,11 @@ export const WorkflowNodeTransformFnSchema: z.ZodType<any> = z.lazy(() =>
       type: z.literal("const"),
       value: z.unknown(),
     }),
+    z.object({
+      type: z.literal("context"),
+      key: z.string(),
+      path: z.array(z.string()).optional(),
+    }),
   ])
 );
 
@@ -96,6 +101,7 @@ export const WorkflowStreamOperatorSchema: z.ZodType<any> = z.lazy(() =>
     }),
     z.object({ type: z.literal("distinct") }),
     z.object({ type: z.literal("distinctUntilChanged") }),
+    z.object({ type: z.literal("context"), key: z.string() }),
   ])
 );
 
@@ -157,6 +163,7 @@ export const WorkflowNodeLLMSchema = WorkflowNodeBaseSchema.extend({
   type: z.literal("llm"),
   maxRetries: z.number(),
   systemPrompt: z.string().optional(),
+  maxTokens: z.number().int().positive().optional(),
   availableTools: z.array(WorkflowToolSchema).optional(),
   reviewers: z.array(WorkflowNodeLLMReviewerSchema).optional(),
   requiresHumanReview: z.boolean().optional(),
@@ -167,12 +174,18 @@ export const WorkflowNodeTransformSchema = WorkflowNodeBaseSchema.extend({
   fn: WorkflowNodeTransformFnSchema,
 });
 
+export const WorkflowCallBudgetSchema = z.object({
+  amount: z.number().nonnegative(),
+  independentAmount: z.number().positive().optional(),
+});
+
 export const WorkflowNodeCallWorkflowSchema = WorkflowNodeBaseSchema.extend({
   type: z.literal("callWorkflow"),
   workflowRef: z.string(),
   inputMapping: WorkflowNodeTransformFnSchema.optional(),
   outputMapping: WorkflowNodeTransformFnSchema.optional(),
   requiresApproval: z.boolean().optional(),
+  budget: WorkflowCallBudgetSchema.optional(),
 });
 
 export const WorkflowNodeStreamSchema = WorkflowNodeBaseSchema.extend({
@@ -200,15 +213,38 @@ export const WorkflowNodeSchema: z.ZodType<any> = z.lazy(() =>
 );
 
 // Workflow Edge
+export const WorkflowEdgeConditionSchema = z.object({
+  path: z.array(z.string()).optional(),
+  match: z.array(z.string()),
+});
+
 export const WorkflowEdgeSchema = z.object({
   from: z.string(),
   to: z.string(),
   previousNodeMessageOutputFieldName: z.string().optional(),
   messageInputFieldName: z.string().optional(),
   description: z.string(),
+  condition: WorkflowEdgeConditionSchema.optional(),
 });
 
 // Workflow Group Node
+export const WorkflowNodeGroupLoopSchema = z.object({
+  condition: WorkflowNodeTransformFnSchema,
+  maxIterations: z.number().int().positive(),
+  nextInput: WorkflowNodeTransformFnSchema.optional(),
+});
+
+export const WorkflowNodeGroupFallbackSchema = z.union([
+  z.object({ type: z.literal("node"), nodeId: z.string() }),
+  z.object({ type: z.literal("output"), fn: WorkflowNodeTransformFnSchema }),
+]);
+
+export const WorkflowNodeGroupErrorHandlerSchema = z.object({
+  retries: z.number().int().nonnegative().optional(),
+  abortSiblings: z.boolean().optional(),
+  fallback: WorkflowNodeGroupFallbackSchema.optional(),
+});
+
 export const WorkflowNodeGroupSchema = WorkflowNodeBaseSchema.extend({
   type: z.literal("group"),
   label: z.string(),
@@ -217,6 +253,8 @@ export const WorkflowNodeGroupSchema = WorkflowNodeBaseSchema.extend({
   entryPoint: z.string(),
   exitPoint: z.string(),
   context: WorkflowContextSchema.optional(),
+  loop: WorkflowNodeGroupLoopSchema.optional(),
+  onError: WorkflowNodeGroupErrorHandlerSchema.optional(),
 });
 
 // Workflow
@@ -234,8 +272,11 @@ export const SessionStatusSchema = z.enum([
   "waiting_for_human_review",
   "waiting_for_budget_approval",
   "waiting_for_workflow_approval",
+  "waiting_for_retry_approval",
 ]);
 
+export const BudgetUnitSchema = z.enum(["tokens", "currency"]);
+
 export const BudgetPoolStatusSchema = z.enum([
   "active",
   "exhausted",
@@ -246,6 +287,7 @@ export const ApprovalTypeSchema = z.enum([
   "human_review",
   "budget_increase",
   "workflow_call",
+  "retry_increase",
 ]);
 
 export const ApprovalStatusSchema = z.enum([
@@ -255,6 +297,13 @@ export const ApprovalStatusSchema = z.enum([
   "expired",
 ]);
 
+export const IncidentSeveritySchema = z.enum([
+  "info",
+  "warning",
+  "error",
+  "critical",
+]);
+
 export const NodeExecutionStatusSchema = z.enum([
   "pending",
   "running",
@@ -280,9 +329,11 @@ export const SessionSchema = z.object({
 export const BudgetPoolSchema = z.object({
   id: z.string(),
   parentPoolId: z.string().optional(),
+  unit: BudgetUnitSchema.optional(),
   totalBudget: z.number(),
   usedBudget: z.number(),
   remainingBudget: z.number(),
+  reservedBudget: z.number().optional(),
   status: BudgetPoolStatusSchema,
   createdAt: z.date(),
   metadata: z.record(z.string(), z.unknown()).optional(),
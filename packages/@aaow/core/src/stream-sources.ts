@@ -0,0 +1,234 @@
+import { open } from "node:fs/promises";
+import { StringDecoder } from "node:string_decoder";
+import type { AbortSignal, StreamSourceFactory } from "@aaow/types";
+
+/**
+ * Built-in external stream sources
+ *
+ * Register them under the `sourceFn` names stream nodes use:
+ *
+ * ```typescript
+ * createApp({
+ *   storage,
+ *   streamSources: {
+ *     appLog: fileLinesSource("./app.log", { follow: true }),
+ *     prices: serverSentEventsSource("https://example.com/prices"),
+ *   },
+ * });
+ * ```
+ */
+
+export interface FileLinesSourceOptions {
+  /** Keep waiting for lines appended to the file instead of completing */
+  follow?: boolean;
+
+  /** How often a followed file is checked for new lines (default: 1000ms) */
+  pollIntervalMs?: number;
+}
+
+export interface ServerSentEventsSourceOptions {
+  /** Headers of the request */
+  headers?: Record<string, string>;
+
+  /** Parse event data as JSON */
+  json?: boolean;
+
+  /** Fetch implementation (default: global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Event received from a server-sent events endpoint
+ */
+export interface ServerSentEvent {
+  /** Event type, `message` when the server sets none */
+  event: string;
+
+  /** Event data, lines joined with `\n` */
+  data: unknown;
+
+  /** Last event ID set by the server */
+  id?: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Source yielding the lines of a local file
+ *
+ * Without `follow`, the stream completes at the end of the file. With it,
+ * the source keeps polling for appended lines until the stream node stops,
+ * holding back a last line until its newline is written, and starts over
+ * when the file is truncated.
+ */
+export function fileLinesSource(
+  path: string,
+  options: FileLinesSourceOptions = {}
+): StreamSourceFactory {
+  return ({ signal }) => readFileLines(path, options, signal);
+}
+
+async function* readFileLines(
+  path: string,
+  options: FileLinesSourceOptions,
+  signal: AbortSignal
+): AsyncGenerator<string> {
+  const file = await open(path, "r");
+  const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+  let decoder = new StringDecoder("utf8");
+  let position = 0;
+  let partial = "";
+
+  try {
+    while (!signal.aborted) {
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+      if (bytesRead > 0) {
+        position += bytesRead;
+        const lines = (
+          partial + decoder.write(buffer.subarray(0, bytesRead))
+        ).split("\n");
+        partial = lines.pop() ?? "";
+        for (const line of lines) {
+          yield line.endsWith("\r") ? line.slice(0, -1) : line;
+        }
+        continue;
+      }
+
+      if (!options.follow) {
+        partial += decoder.end();
+        if (partial) {
+          yield partial;
+        }
+        return;
+      }
+
+      if ((await file.stat()).size < position) {
+        decoder = new StringDecoder("utf8");
+        position = 0;
+        partial = "";
+        continue;
+      }
+      await sleep(options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS, signal);
+    }
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Source yielding the events of a server-sent events endpoint
+ *
+ * The stream completes when the server closes the connection; the source
+ * doesn't reconnect.
+ */
+export function serverSentEventsSource(
+  url: string,
+  options: ServerSentEventsSourceOptions = {}
+): StreamSourceFactory {
+  return ({ signal }) => readServerSentEvents(url, options, signal);
+}
+
+async function* readServerSentEvents(
+  url: string,
+  options: ServerSentEventsSourceOptions,
+  signal: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal.reason);
+  signal.addEventListener("abort", abort);
+
+  try {
+    const response = await (options.fetch ?? fetch)(url, {
+      headers: { Accept: "text/event-stream", ...options.headers },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `Server-sent events endpoint ${url} responded with ${response.status}`
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    let eventType: string | undefined;
+    let data: string[] = [];
+    let lastEventId: string | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      const lines = (pending + decoder.decode(value, { stream: true })).split(
+        "\n"
+      );
+      pending = lines.pop() ?? "";
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+
+        // An empty line dispatches the event
+        if (line === "") {
+          if (data.length > 0) {
+            const text = data.join("\n");
+            yield {
+              event: eventType || "message",
+              data: options.json ? JSON.parse(text) : text,
+              id: lastEventId,
+            };
+          }
+          eventType = undefined;
+          data = [];
+          continue;
+        }
+
+        // Lines starting with a colon are comments
+        if (line.startsWith(":")) {
+          continue;
+        }
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let fieldValue = colon === -1 ? "" : line.slice(colon + 1);
+        if (fieldValue.startsWith(" ")) {
+          fieldValue = fieldValue.slice(1);
+        }
+
+        if (field === "data") {
+          data.push(fieldValue);
+        } else if (field === "event") {
+          eventType = fieldValue;
+        } else if (field === "id") {
+          lastEventId = fieldValue;
+        }
+      }
+    }
+  } catch (error) {
+    // The stream node stopped consuming the source
+    if (signal.aborted) {
+      return;
+    }
+    throw error;
+  } finally {
+    signal.removeEventListener("abort", abort);
+    controller.abort();
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, or until the signal is aborted
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+}
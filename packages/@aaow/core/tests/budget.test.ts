@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { BudgetPoolManager } from "../src/budget";
+import { computeCost } from "../src/pricing";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+describe("Budget accounting", () => {
+  let storage: MemoryStorageAdapter;
+  let budgetManager: BudgetPoolManager;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    budgetManager = new BudgetPoolManager(storage);
+  });
+
+  describe("computeCost", () => {
+    const pricing = {
+      inputPerMillionTokens: 3,
+      outputPerMillionTokens: 15,
+      cachedInputPerMillionTokens: 0.3,
+    };
+
+    it("should price prompt and completion tokens separately", () => {
+      expect(
+        computeCost(
+          {
+            promptTokens: 1_000_000,
+            completionTokens: 100_000,
+            totalTokens: 1_100_000,
+          },
+          pricing
+        )
+      ).toBeCloseTo(4.5);
+    });
+
+    it("should price cached prompt tokens at the cached rate", () => {
+      expect(
+        computeCost(
+          {
+            promptTokens: 1_000_000,
+            completionTokens: 0,
+            totalTokens: 1_000_000,
+            cachedPromptTokens: 500_000,
+          },
+          pricing
+        )
+      ).toBeCloseTo(1.65);
+    });
+
+    it("should default the cached rate to the input rate", () => {
+      expect(
+        computeCost(
+          {
+            promptTokens: 1_000_000,
+            completionTokens: 0,
+            totalTokens: 1_000_000,
+            cachedPromptTokens: 500_000,
+          },
+          { inputPerMillionTokens: 3, outputPerMillionTokens: 15 }
+        )
+      ).toBeCloseTo(3);
+    });
+  });
+
+  describe("chargeExecution", () => {
+    const execution = {
+      success: true,
+      usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+      cost: 0.25,
+    };
+
+    it("should charge tokens to token pools", async () => {
+      await budgetManager.createPool("pool", 1000);
+      await budgetManager.chargeExecution("pool", execution);
+
+      expect((await budgetManager.getPool("pool"))?.usedBudget).toBe(150);
+    });
+
+    it("should charge the cost to currency pools and their parents", async () => {
+      await budgetManager.createPool(
+        "org",
+        100,
+        undefined,
+        undefined,
+        "currency"
+      );
+      await budgetManager.createPool(
+        "team",
+        10,
+        "org",
+        undefined,
+        "currency"
+      );
+      await budgetManager.chargeExecution("team", execution);
+
+      expect((await budgetManager.getPool("team"))?.usedBudget).toBe(0.25);
+      expect((await budgetManager.getPool("org"))?.usedBudget).toBe(0.25);
+    });
+
+    it("should refuse to charge unpriced executions to currency pools", async () => {
+      await budgetManager.createPool(
+        "pool",
+        10,
+        undefined,
+        undefined,
+        "currency"
+      );
+
+      await expect(
+        budgetManager.chargeExecution("pool", { ...execution, cost: undefined })
+      ).rejects.toThrow(
+        "Budget pool pool counts currency, but the execution has no cost"
+      );
+    });
+  });
+
+  describe("reservations", () => {
+    it("should hold reserved budget back from other consumers", async () => {
+      await budgetManager.createPool("pool", 100);
+      await budgetManager.reserveBudget("pool", 80);
+
+      expect(await budgetManager.checkBudget("pool", 30)).toBe(false);
+      await expect(budgetManager.consumeBudget("pool", 30)).rejects.toThrow(
+        "Insufficient budget in pool pool"
+      );
+    });
+
+    it("should settle the spent amount and release the reservation", async () => {
+      await budgetManager.createPool("org", 100);
+      await budgetManager.createPool("team", 100, "org");
+      const reservation = await budgetManager.reserveBudget("team", 80);
+      await budgetManager.settleReservation(reservation, 20);
+
+      for (const poolId of ["team", "org"]) {
+        expect(await budgetManager.getPool(poolId)).toMatchObject({
+          usedBudget: 20,
+          remainingBudget: 80,
+          reservedBudget: 0,
+        });
+      }
+    });
+  });
+
+  it("should not lose updates of concurrent managers", async () => {
+    await budgetManager.createPool("org", 1000);
+    await budgetManager.createPool("team", 100, "org");
+    const otherManager = new BudgetPoolManager(storage);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 30 }, (_, i) =>
+        (i % 2 ? otherManager : budgetManager).consumeBudget("team", 5)
+      )
+    );
+
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(20);
+    expect(await budgetManager.getPool("team")).toMatchObject({
+      usedBudget: 100,
+      status: "exhausted",
+    });
+    expect((await budgetManager.getPool("org"))?.usedBudget).toBe(100);
+  });
+
+  it("should not lose consumptions interleaving with top-ups", async () => {
+    await budgetManager.createPool("team", 100);
+    const otherManager = new BudgetPoolManager(storage);
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        i % 2
+          ? otherManager.consumeBudget("team", 5)
+          : budgetManager.increaseBudget("team", 10)
+      )
+    );
+
+    expect(await budgetManager.getPool("team")).toMatchObject({
+      totalBudget: 200,
+      usedBudget: 50,
+      remainingBudget: 150,
+    });
+  });
+
+  it("should grant each independent budget increase its own pool", async () => {
+    await budgetManager.createPool("team", 100);
+    const grant = (id: string, sessionId: string) =>
+      budgetManager.grantBudgetIncrease({
+        id,
+        sessionId,
+        nodeId: "root.call",
+        type: "budget_increase",
+        status: "approved",
+        context: {
+          requestedBudget: 50,
+          metadata: { budgetPoolId: "team", independent: true },
+        },
+        createdAt: new Date(),
+      });
+
+    await grant("approval-1", "session-1");
+    await grant("approval-2", "session-2");
+
+    expect(
+      await budgetManager.getPool("team:independent:approval-1")
+    ).toMatchObject({
+      totalBudget: 50,
+      metadata: { sessionId: "session-1", replacesPoolId: "team" },
+    });
+    expect(
+      await budgetManager.getPool("team:independent:approval-2")
+    ).toMatchObject({
+      totalBudget: 50,
+      metadata: { sessionId: "session-2", replacesPoolId: "team" },
+    });
+  });
+
+  describe("limits over time", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-03-10T15:30:00Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should reset recurring budgets at the start of each period", async () => {
+      await budgetManager.createPool(
+        "team",
+        100,
+        undefined,
+        undefined,
+        "tokens",
+        { period: "day" }
+      );
+      await budgetManager.consumeBudget("team", 100);
+      expect((await budgetManager.getPool("team"))?.status).toBe("exhausted");
+      await expect(budgetManager.consumeBudget("team", 1)).rejects.toThrow(
+        "Insufficient budget in pool team"
+      );
+
+      vi.setSystemTime(new Date("2026-03-11T00:00:01Z"));
+      await budgetManager.consumeBudget("team", 30);
+
+      expect(await budgetManager.getPool("team")).toMatchObject({
+        status: "active",
+        usedBudget: 30,
+        remainingBudget: 70,
+        periodStartedAt: new Date("2026-03-11T00:00:00Z"),
+      });
+    });
+
+    it("should cap spending over rolling windows", async () => {
+      await budgetManager.createPool(
+        "team",
+        1000,
+        undefined,
+        undefined,
+        "tokens",
+        { rateLimits: [{ windowMs: 60_000, limit: 50 }] }
+      );
+      await budgetManager.consumeBudget("team", 40);
+
+      await expect(budgetManager.consumeBudget("team", 20)).rejects.toThrow(
+        "Budget pool team exceeded its rate limit of 50 per 60000ms"
+      );
+
+      vi.advanceTimersByTime(61_000);
+      await budgetManager.consumeBudget("team", 20);
+      expect((await budgetManager.getPool("team"))?.usedBudget).toBe(60);
+    });
+
+    it("should count concurrent reservations against rolling windows", async () => {
+      await budgetManager.createPool(
+        "team",
+        1000,
+        undefined,
+        undefined,
+        "tokens",
+        { rateLimits: [{ windowMs: 60_000, limit: 50 }] }
+      );
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () =>
+          budgetManager.reserveBudget("team", 10)
+        )
+      );
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(5);
+      expect((await budgetManager.getPool("team"))?.reservedBudget).toBe(50);
+    });
+
+    it("should report the spending of a pool over a time range", async () => {
+      await budgetManager.createPool("org", 1000);
+      await budgetManager.createPool("team", 1000, "org");
+      await budgetManager.consumeBudget("team", 10);
+      vi.setSystemTime(new Date("2026-03-11T09:00:00Z"));
+      await budgetManager.consumeBudget("team", 20);
+      await budgetManager.consumeBudget("org", 5);
+
+      const march10 = new Date("2026-03-10T00:00:00Z");
+      const march11 = new Date("2026-03-11T00:00:00Z");
+      const march12 = new Date("2026-03-12T00:00:00Z");
+      expect(await budgetManager.getSpending("team", march10, march11)).toBe(
+        10
+      );
+      expect(await budgetManager.getSpending("org", march11, march12)).toBe(25);
+    });
+  });
+
+  it("should refuse child pools counting another unit than their parent", async () => {
+    await budgetManager.createPool(
+      "org",
+      100,
+      undefined,
+      undefined,
+      "currency"
+    );
+
+    await expect(budgetManager.createPool("team", 1000, "org")).rejects.toThrow(
+      "Budget pool team counts tokens, but its parent org counts currency"
+    );
+  });
+});
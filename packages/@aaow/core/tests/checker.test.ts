@@ -0,0 +1,455 @@
+import { describe, it, expect } from "vitest";
+import type {
+  Workflow,
+  WorkflowNode,
+  WorkflowNodeMessageType,
+} from "@aaow/types";
+import { checkWorkflow } from "../src/checker";
+import { createApp } from "../src/app";
+import { WorkflowCheckError } from "../src/errors";
+import { createWorkflow, stringType, transform } from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+const articleType: WorkflowNodeMessageType = {
+  type: "object",
+  value: {
+    title: { description: "Title", type: stringType },
+    body: { description: "Body", type: stringType },
+  },
+};
+
+/**
+ * Transform passing its input through, between the given types
+ */
+function passThrough(
+  inputType: WorkflowNodeMessageType,
+  outputType: WorkflowNodeMessageType
+): WorkflowNode {
+  return transform({ type: "get" }, { inputType, outputType });
+}
+
+describe("checkWorkflow", () => {
+  it("should accept a well-formed workflow", () => {
+    const workflow = createWorkflow(
+      {
+        write: passThrough(stringType, articleType),
+        shorten: passThrough(stringType, stringType),
+      },
+      [
+        { from: "entry", to: "write", description: "" },
+        {
+          from: "write",
+          to: "shorten",
+          previousNodeMessageOutputFieldName: "body",
+          description: "",
+        },
+        {
+          from: "write",
+          to: "exit",
+          previousNodeMessageOutputFieldName: "title",
+          messageInputFieldName: "title",
+          description: "",
+        },
+        {
+          from: "shorten",
+          to: "exit",
+          messageInputFieldName: "body",
+          description: "",
+        },
+      ],
+      { outputType: articleType }
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([]);
+  });
+
+  it("should report edges to unknown nodes and missing boundaries", () => {
+    const workflow = createWorkflow(
+      { a: passThrough(stringType, stringType) },
+      [{ from: "start", to: "a", description: "" }]
+    );
+
+    expect(checkWorkflow(workflow)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: "unknown-node",
+          path: "root",
+          edgeIndex: 0,
+        }),
+        expect.objectContaining({ code: "missing-entry-point", path: "root" }),
+        expect.objectContaining({ code: "missing-exit-point", path: "root" }),
+      ])
+    );
+  });
+
+  it("should report unreachable and dead-end nodes as warnings", () => {
+    const workflow = createWorkflow(
+      {
+        a: passThrough(stringType, stringType),
+        orphan: passThrough(stringType, stringType),
+        sink: passThrough(stringType, stringType),
+      },
+      [
+        { from: "entry", to: "a", description: "" },
+        { from: "a", to: "exit", description: "" },
+        { from: "a", to: "sink", description: "" },
+      ]
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "warning",
+        code: "unreachable-node",
+        path: "root.orphan",
+        message: "Node orphan can't be reached from entry point entry",
+      },
+      {
+        severity: "warning",
+        code: "dead-end-node",
+        path: "root.sink",
+        message: "Node sink doesn't lead to exit point exit",
+      },
+    ]);
+  });
+
+  it("should report edges connecting incompatible types", () => {
+    const workflow = createWorkflow(
+      { write: passThrough(stringType, articleType) },
+      [
+        { from: "entry", to: "write", description: "" },
+        { from: "write", to: "exit", description: "" },
+      ]
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "error",
+        code: "type-mismatch",
+        path: "root",
+        edgeIndex: 1,
+        message: "Edge write -> exit passes object, but exit expects string",
+      },
+    ]);
+  });
+
+  it("should report fields missing from the source or target", () => {
+    const workflow = createWorkflow(
+      {
+        write: passThrough(stringType, articleType),
+        read: passThrough(articleType, stringType),
+      },
+      [
+        { from: "entry", to: "write", description: "" },
+        {
+          from: "write",
+          to: "read",
+          previousNodeMessageOutputFieldName: "summary",
+          description: "",
+        },
+        {
+          from: "write",
+          to: "read",
+          previousNodeMessageOutputFieldName: "title",
+          messageInputFieldName: "heading",
+          description: "",
+        },
+        { from: "read", to: "exit", description: "" },
+      ]
+    );
+
+    expect(checkWorkflow(workflow).map((d) => d.message)).toEqual([
+      "Output of write has no field summary",
+      "Input of read has no field heading",
+    ]);
+  });
+
+  it("should narrow tagged unions by edge conditions", () => {
+    const verdictType: WorkflowNodeMessageType = {
+      type: "taggedUnion",
+      value: {
+        approve: { description: "Approved", type: articleType },
+        reject: { description: "Rejected", type: stringType },
+      },
+    };
+    const edges = (match: string[]) =>
+      createWorkflow(
+        { review: passThrough(stringType, verdictType) },
+        [
+          { from: "entry", to: "review", description: "" },
+          {
+            from: "review",
+            to: "exit",
+            previousNodeMessageOutputFieldName: "title",
+            condition: { match },
+            description: "",
+          },
+        ]
+      );
+
+    expect(checkWorkflow(edges(["approve"]))).toEqual([]);
+    expect(checkWorkflow(edges(["approve", "reject"]))).toEqual([
+      expect.objectContaining({ code: "unknown-field", edgeIndex: 1 }),
+    ]);
+  });
+
+  it("should resolve typedefs, including recursive ones", () => {
+    const typedefs: Workflow["typedefs"] = {
+      Tree: {
+        type: "object",
+        value: {
+          label: { description: "Label", type: stringType },
+          children: {
+            description: "Children",
+            type: { type: "array", of: { type: "ref", ref: "Tree" } },
+          },
+        },
+      },
+      Label: { type: "enum", value: ["a", "b"] },
+    };
+    const treeType = { type: "ref" as const, ref: "Tree" };
+
+    const workflow = createWorkflow(
+      {
+        grow: passThrough(stringType, treeType),
+        label: passThrough({ type: "ref", ref: "Label" }, stringType),
+      },
+      [
+        { from: "entry", to: "grow", description: "" },
+        { from: "grow", to: "exit", description: "" },
+        {
+          from: "grow",
+          to: "label",
+          previousNodeMessageOutputFieldName: "label",
+          description: "",
+        },
+        { from: "label", to: "exit", description: "" },
+      ],
+      { outputType: treeType },
+      typedefs
+    );
+
+    expect(checkWorkflow(workflow)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: "type-mismatch",
+          message: "Edge grow -> label passes string, but label expects Label",
+        }),
+      ])
+    );
+  });
+
+  it("should report dangling type refs", () => {
+    const workflow = createWorkflow(
+      { a: passThrough(stringType, { type: "ref", ref: "Missing" }) },
+      [
+        { from: "entry", to: "a", description: "" },
+        { from: "a", to: "exit", description: "" },
+      ]
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-type-ref",
+        path: "root.a",
+        message: "Unknown type reference: Missing",
+      },
+    ]);
+  });
+
+  it("should report context keys no enclosing group declares", () => {
+    const generator = (contextAccess: string[]): WorkflowNode => ({
+      type: "generator",
+      generatorFn: "gen",
+      contextAccess,
+      inputType: stringType,
+      outputType: stringType,
+    });
+
+    const workflow = createWorkflow(
+      {
+        inner: {
+          type: "group",
+          label: "Inner",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: { gen: generator(["apiKey", "missing"]) },
+          edges: [
+            { from: "entry", to: "gen", description: "" },
+            { from: "gen", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      },
+      [
+        { from: "entry", to: "inner", description: "" },
+        { from: "inner", to: "exit", description: "" },
+      ],
+      {
+        context: { items: { apiKey: { type: "data", value: "secret" } } },
+      }
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "error",
+        code: "undeclared-context-key",
+        path: "root.inner.gen",
+        message: "Context key missing isn't declared by an enclosing group",
+      },
+    ]);
+  });
+
+  it("should report context keys referenced by bound tool inputs", () => {
+    const workflow = createWorkflow(
+      {
+        read: {
+          type: "llm",
+          maxRetries: 0,
+          inputType: stringType,
+          outputType: stringType,
+          availableTools: [
+            {
+              type: "custom",
+              name: "readFile",
+              overridedInput: {
+                repo: { $context: "repo" },
+                token: { $context: "token" },
+              },
+            },
+          ],
+        },
+      },
+      [
+        { from: "entry", to: "read", description: "" },
+        { from: "read", to: "exit", description: "" },
+      ],
+      {
+        context: { items: { repo: { type: "data", value: "/srv/app" } } },
+      }
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "error",
+        code: "undeclared-context-key",
+        path: "root.read",
+        message: "Context key token isn't declared by an enclosing group",
+      },
+    ]);
+  });
+
+  it("should report context keys of prompts, transforms and streams", () => {
+    const workflow = createWorkflow(
+      {
+        write: {
+          type: "llm",
+          maxRetries: 0,
+          systemPrompt: "Write in a {{tone}} tone for {{audience}}",
+          inputType: stringType,
+          outputType: stringType,
+        },
+        label: {
+          type: "transform",
+          fn: { type: "context", key: "recent" },
+          inputType: stringType,
+          outputType: stringType,
+        },
+        call: {
+          type: "callWorkflow",
+          workflowRef: "tone",
+          inputType: stringType,
+          outputType: stringType,
+        },
+        watch: {
+          type: "stream",
+          source: { type: "node", nodeId: "write" },
+          operators: [
+            { type: "context", key: "recent" },
+            { type: "context", key: "tone" },
+          ],
+          inputType: stringType,
+          outputType: { type: "array", of: stringType },
+        },
+        summary: passThrough({ type: "array", of: stringType }, stringType),
+      },
+      [
+        { from: "entry", to: "write", description: "" },
+        { from: "write", to: "label", description: "" },
+        { from: "label", to: "call", description: "" },
+        { from: "call", to: "watch", description: "" },
+        { from: "watch", to: "summary", description: "" },
+        { from: "summary", to: "exit", description: "" },
+      ],
+      {
+        context: {
+          items: {
+            tone: { type: "data", value: "formal" },
+            recent: {
+              type: "streamOperator",
+              operator: { type: "take", count: 5 },
+            },
+            summarize: { type: "nodeRef", nodeId: "summary" },
+            publish: { type: "nodeRef", nodeId: "missing" },
+          },
+        },
+      }
+    );
+
+    expect(checkWorkflow(workflow)).toEqual([
+      {
+        severity: "error",
+        code: "unknown-node",
+        path: "root",
+        message: "Context item publish references unknown node missing",
+      },
+      {
+        severity: "error",
+        code: "undeclared-context-key",
+        path: "root.write",
+        message: "Context key audience isn't declared by an enclosing group",
+      },
+      {
+        severity: "error",
+        code: "wrong-context-item-type",
+        path: "root.label",
+        message: "Context key recent is a streamOperator item, expected data",
+      },
+      {
+        severity: "error",
+        code: "wrong-context-item-type",
+        path: "root.call",
+        message:
+          "Context key tone is a data item, expected nodeRef or workflowRef",
+      },
+      {
+        severity: "error",
+        code: "wrong-context-item-type",
+        path: "root.watch",
+        message: "Context key tone is a data item, expected streamOperator",
+      },
+    ]);
+  });
+
+  it("should make App.saveWorkflow reject workflows with errors", async () => {
+    const app = createApp({ storage: new MemoryStorageAdapter() });
+    const workflow = createWorkflow(
+      { a: passThrough(stringType, articleType) },
+      [
+        { from: "entry", to: "a", description: "" },
+        { from: "a", to: "exit", description: "" },
+      ]
+    );
+
+    const error = await app
+      .saveWorkflow("wf", "Workflow", workflow)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(WorkflowCheckError);
+    expect(error.message).toBe(
+      "Invalid workflow: root: Edge a -> exit passes object, but exit expects string"
+    );
+    expect(await app.getWorkflow("wf")).toBeNull();
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import type { Workflow, WorkflowContext, WorkflowNodeGroup } from "@aaow/types";
+import { WorkflowEngine } from "../src/engine";
+import { chain, llm, stringType, transform } from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+/**
+ * Mock model replying with its system prompt
+ */
+function createSystemPromptModel() {
+  return new MockLanguageModelV1({
+    doGenerate: async ({ prompt }) => {
+      const system = prompt.find((m) => m.role === "system");
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text: typeof system?.content === "string" ? system.content : "",
+      };
+    },
+  });
+}
+
+function group(
+  nodes: WorkflowNodeGroup["nodes"],
+  edges: WorkflowNodeGroup["edges"],
+  context?: WorkflowContext
+): WorkflowNodeGroup {
+  return {
+    type: "group",
+    label: "Group",
+    inputType: stringType,
+    outputType: stringType,
+    nodes,
+    edges,
+    entryPoint: "entry",
+    exitPoint: "exit",
+    context,
+  };
+}
+
+describe("Workflow context", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it("should inject data items into prompts and transforms", async () => {
+    const engine = new WorkflowEngine({
+      storage,
+      model: createSystemPromptModel(),
+    });
+
+    const workflow: Workflow = {
+      root: group(
+        {
+          inner: group(
+            {
+              write: llm({
+                systemPrompt: "Write for {{ team }} in a {{tone}} tone",
+              }),
+            },
+            chain("write"),
+            { items: { tone: { type: "data", value: "casual" } } }
+          ),
+          sign: transform({
+            type: "object",
+            value: {
+              text: { type: "get" },
+              tone: { type: "context", key: "tone" },
+              team: { type: "context", key: "team", path: ["name"] },
+            },
+          }),
+        },
+        chain("inner", "sign"),
+        {
+          items: {
+            tone: { type: "data", value: "formal" },
+            team: { type: "data", value: { name: "Docs" } },
+          },
+        }
+      ),
+    };
+
+    const result = await engine.executeWorkflow(workflow, "wf", "release");
+
+    expect(result.output).toEqual({
+      text: 'Write for {"name":"Docs"} in a casual tone',
+      tone: "formal",
+      team: "Docs",
+    });
+  });
+
+  it("should fail on prompts referencing undeclared data items", async () => {
+    const engine = new WorkflowEngine({
+      storage,
+      model: createSystemPromptModel(),
+    });
+
+    const workflow: Workflow = {
+      root: group(
+        {
+          write: llm({ systemPrompt: "Write for {{audience}}" }),
+        },
+        chain("write")
+      ),
+    };
+
+    await expect(
+      engine.executeWorkflow(workflow, "wf", "release")
+    ).rejects.toThrow(
+      "Context key audience isn't a data item of an enclosing group"
+    );
+  });
+
+  it("should call nodeRef and workflowRef items from callWorkflow nodes", async () => {
+    await storage.saveWorkflow({
+      id: "publisher",
+      name: "Publisher",
+      version: "1.0.0",
+      definition: {
+        root: group(
+          {
+            publish: transform({
+              type: "object",
+              value: { published: { type: "get" } },
+            }),
+          },
+          chain("publish")
+        ),
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const engine = new WorkflowEngine({ storage });
+
+    const workflow: Workflow = {
+      root: group(
+        {
+          steps: group(
+            {
+              tidy: {
+                type: "callWorkflow",
+                workflowRef: "normalize",
+                inputMapping: {
+                  type: "object",
+                  value: { raw: { type: "get" } },
+                },
+                outputMapping: { type: "get", path: ["normalized"] },
+                inputType: stringType,
+                outputType: stringType,
+              },
+              ship: {
+                type: "callWorkflow",
+                workflowRef: "publish",
+                inputType: stringType,
+                outputType: stringType,
+              },
+            },
+            chain("tidy", "ship")
+          ),
+          // Not connected by edges, only called through the context
+          normalizer: transform({
+            type: "object",
+            value: { normalized: { type: "get", path: ["raw"] } },
+          }),
+        },
+        chain("steps"),
+        {
+          items: {
+            normalize: { type: "nodeRef", nodeId: "normalizer" },
+            publish: { type: "workflowRef", workflowId: "publisher" },
+          },
+        }
+      ),
+    };
+
+    const result = await engine.executeWorkflow(workflow, "wf", "draft");
+
+    expect(result.output).toEqual({ published: "draft" });
+    const state = await storage.getExecutionState(result.sessionId);
+    expect(state?.nodeStates["root.steps.tidy.normalize"]).toMatchObject({
+      status: "completed",
+      input: { raw: "draft" },
+      output: { normalized: "draft" },
+    });
+  });
+
+  it("should apply streamOperator items in stream nodes", async () => {
+    const engine = new WorkflowEngine({
+      storage,
+      generators: {
+        weights: async function* () {
+          yield 1;
+          yield 2;
+          yield 3;
+          return "weighed";
+        },
+      },
+    });
+
+    const createWorkflow = (items: WorkflowContext["items"]): Workflow => ({
+      root: group(
+        {
+          weigh: {
+            type: "generator",
+            generatorFn: "weights",
+            inputType: stringType,
+            outputType: stringType,
+          },
+          readings: {
+            type: "stream",
+            source: { type: "node", nodeId: "weigh" },
+            operators: [
+              { type: "context", key: "recent" },
+              {
+                type: "map",
+                fn: {
+                  type: "object",
+                  value: {
+                    value: { type: "get" },
+                    unit: { type: "context", key: "unit" },
+                  },
+                },
+              },
+            ],
+            inputType: stringType,
+            outputType: { type: "array", of: stringType },
+          },
+        },
+        [
+          { from: "entry", to: "weigh", description: "" },
+          { from: "entry", to: "readings", description: "" },
+          { from: "readings", to: "exit", description: "" },
+        ],
+        { items }
+      ),
+    });
+
+    const result = await engine.executeWorkflow(
+      createWorkflow({
+        unit: { type: "data", value: "kg" },
+        firstTwo: {
+          type: "streamOperator",
+          operator: { type: "take", count: 2 },
+        },
+        recent: {
+          type: "streamOperator",
+          operator: { type: "context", key: "firstTwo" },
+        },
+      }),
+      "wf",
+      "scale"
+    );
+    expect(result.output).toEqual([
+      { value: 1, unit: "kg" },
+      { value: 2, unit: "kg" },
+    ]);
+
+    await expect(
+      engine.executeWorkflow(
+        createWorkflow({
+          unit: { type: "data", value: "kg" },
+          recent: {
+            type: "streamOperator",
+            operator: { type: "context", key: "recent" },
+          },
+        }),
+        "wf",
+        "scale"
+      )
+    ).rejects.toThrow("Stream operator recent refers to itself");
+  });
+});
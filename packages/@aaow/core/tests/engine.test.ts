@@ -0,0 +1,2156 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import { z } from "zod";
+import type {
+  Workflow,
+  WorkflowCallBudget,
+  WorkflowNode,
+  WorkflowTool,
+} from "@aaow/types";
+import { WorkflowEngine } from "../src/engine";
+import { BudgetPoolManager } from "../src/budget";
+import { createApp } from "../src/app";
+import {
+  createScriptedModel,
+  createWorkflow,
+  llm,
+  stringType,
+  transform,
+} from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+/**
+ * Mock model that echoes the prompt and records peak concurrency
+ */
+function createEchoModel(delayMs = 20) {
+  const stats = { active: 0, peak: 0, calls: 0 };
+  const model = new MockLanguageModelV1({
+    doGenerate: async ({ prompt }) => {
+      stats.calls++;
+      stats.active++;
+      stats.peak = Math.max(stats.peak, stats.active);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      stats.active--;
+
+      const lastMessage = prompt[prompt.length - 1];
+      const text =
+        lastMessage.role === "user"
+          ? lastMessage.content
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .join("")
+          : "";
+
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text: `echo:${text}`,
+      };
+    },
+  });
+  return { model, stats };
+}
+
+const REVIEWER_PROMPT = "You are a strict editor";
+
+interface ToolCallScript {
+  toolName: string;
+  args: unknown;
+}
+
+/**
+ * Mock model answering generations and reviews from separate scripts
+ *
+ * A draft may call tools along with its text.
+ */
+function createReviewedModel(
+  drafts: (string | { text: string; toolCalls: ToolCallScript[] })[],
+  verdicts: unknown[]
+) {
+  const prompts: string[] = [];
+  let draft = 0;
+  let review = 0;
+  const model = new MockLanguageModelV1({
+    defaultObjectGenerationMode: "json",
+    doGenerate: async ({ prompt }) => {
+      const text = (role: string) =>
+        prompt
+          .filter((m) => m.role === role)
+          .map((m) =>
+            typeof m.content === "string"
+              ? m.content
+              : m.content
+                  .map((part: any) => (part.type === "text" ? part.text : ""))
+                  .join("")
+          )
+          .join("\n");
+
+      const isReview = text("system").includes(REVIEWER_PROMPT);
+      if (!isReview) prompts.push(text("user"));
+
+      const reply = isReview
+        ? JSON.stringify(verdicts[review++])
+        : drafts[draft++];
+      const { text: replyText, toolCalls = [] } =
+        typeof reply === "string" ? { text: reply } : reply;
+
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text: replyText,
+        toolCalls: toolCalls.map((call, index) => ({
+          toolCallType: "function" as const,
+          toolCallId: `call-${draft}-${index}`,
+          toolName: call.toolName,
+          args: JSON.stringify(call.args),
+        })),
+      };
+    },
+  });
+  return { model, prompts };
+}
+
+describe("WorkflowEngine", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  describe("Group scheduling", () => {
+    it("should run a linear chain through virtual entry and exit points", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            wrap: transform({
+              type: "object",
+              value: { text: { type: "get" } },
+            }),
+          },
+          edges: [
+            { from: "entry", to: "wrap", description: "Start" },
+            {
+              from: "wrap",
+              to: "exit",
+              previousNodeMessageOutputFieldName: "text",
+              description: "End",
+            },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "hello");
+
+      expect(result.output).toBe("hello");
+      expect(storage.sessions.get(result.sessionId)?.status).toBe("completed");
+    });
+
+    it("should fan out to parallel branches and join their outputs", async () => {
+      const { model, stats } = createEchoModel();
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Critiques",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            style: llm(),
+            facts: llm(),
+            tone: llm(),
+          },
+          edges: [
+            { from: "entry", to: "style", description: "Fork" },
+            { from: "entry", to: "facts", description: "Fork" },
+            { from: "entry", to: "tone", description: "Fork" },
+            {
+              from: "style",
+              to: "exit",
+              messageInputFieldName: "style",
+              description: "Join",
+            },
+            {
+              from: "facts",
+              to: "exit",
+              messageInputFieldName: "facts",
+              description: "Join",
+            },
+            {
+              from: "tone",
+              to: "exit",
+              messageInputFieldName: "tone",
+              description: "Join",
+            },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage, model });
+      const result = await engine.executeWorkflow(workflow, "wf", "draft");
+
+      expect(result.output).toEqual({
+        style: "echo:draft",
+        facts: "echo:draft",
+        tone: "echo:draft",
+      });
+      expect(stats.calls).toBe(3);
+      expect(stats.peak).toBe(3);
+    });
+
+    it("should wait at a join until all predecessors complete", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Diamond",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            start: transform({ type: "get" }),
+            left: transform({ type: "const", value: "L" }),
+            right: transform({ type: "const", value: "R" }),
+            join: transform({
+              type: "object",
+              value: {
+                both: {
+                  type: "object",
+                  value: {
+                    l: { type: "get", path: ["a"] },
+                    r: { type: "get", path: ["b"] },
+                  },
+                },
+              },
+            }),
+          },
+          edges: [
+            { from: "start", to: "left", description: "" },
+            { from: "start", to: "right", description: "" },
+            {
+              from: "left",
+              to: "join",
+              messageInputFieldName: "a",
+              description: "",
+            },
+            {
+              from: "right",
+              to: "join",
+              messageInputFieldName: "b",
+              description: "",
+            },
+            { from: "join", to: "end", description: "" },
+          ],
+          entryPoint: "start",
+          exitPoint: "end",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "x");
+
+      expect(result.output).toEqual({ both: { l: "L", r: "R" } });
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.join")?.input).toEqual({ a: "L", b: "R" });
+      expect(nodeStates.get("root.join")?.status).toBe("completed");
+    });
+
+    it("should wire edge fields into nested node input paths", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Wiring",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            user: transform({
+              type: "object",
+              value: {
+                profile: {
+                  type: "object",
+                  value: { name: { type: "const", value: "Ada" } },
+                },
+              },
+            }),
+            settings: transform({
+              type: "object",
+              value: { lang: { type: "const", value: "en" } },
+            }),
+            merge: transform({ type: "get" }),
+          },
+          edges: [
+            { from: "entry", to: "user", description: "" },
+            { from: "entry", to: "settings", description: "" },
+            {
+              from: "user",
+              to: "merge",
+              previousNodeMessageOutputFieldName: "profile.name",
+              messageInputFieldName: "author.name",
+              description: "",
+            },
+            { from: "settings", to: "merge", description: "" },
+            {
+              from: "entry",
+              to: "merge",
+              messageInputFieldName: "text",
+              description: "",
+            },
+            { from: "merge", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "hi");
+
+      expect(result.output).toEqual({
+        author: { name: "Ada" },
+        lang: "en",
+        text: "hi",
+      });
+    });
+
+    it("should place a single edge value under its input field", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Single",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {},
+          edges: [
+            {
+              from: "entry",
+              to: "exit",
+              messageInputFieldName: "question",
+              description: "",
+            },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "why?");
+
+      expect(result.output).toEqual({ question: "why?" });
+    });
+
+    it("should follow conditional edges and skip branches not taken", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Router",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            classify: transform({
+              type: "object",
+              value: {
+                route: {
+                  type: "taggedUnion",
+                  tag: "billing",
+                  value: { reason: { type: "const", value: "invoice" } },
+                },
+              },
+            }),
+            billing: transform({ type: "const", value: "billing team" }),
+            support: transform({ type: "const", value: "support team" }),
+            followUp: transform({ type: "get" }),
+          },
+          edges: [
+            { from: "entry", to: "classify", description: "" },
+            {
+              from: "classify",
+              to: "billing",
+              condition: { path: ["route"], match: ["billing"] },
+              description: "",
+            },
+            {
+              from: "classify",
+              to: "support",
+              condition: { path: ["route"], match: ["support", "other"] },
+              description: "",
+            },
+            { from: "support", to: "followUp", description: "" },
+            { from: "billing", to: "exit", description: "" },
+            { from: "followUp", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "x");
+
+      expect(result.output).toBe("billing team");
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.billing")?.status).toBe("completed");
+      expect(nodeStates.get("root.support")?.status).toBe("skipped");
+      expect(nodeStates.get("root.followUp")?.status).toBe("skipped");
+    });
+
+    it("should reject cyclic edges", async () => {
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Cycle",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            a: transform({ type: "get" }),
+            b: transform({ type: "get" }),
+          },
+          edges: [
+            { from: "entry", to: "a", description: "" },
+            { from: "a", to: "b", description: "" },
+            { from: "b", to: "a", description: "" },
+            { from: "b", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      await expect(
+        engine.executeWorkflow(workflow, "wf", "x")
+      ).rejects.toThrow("Cycle detected");
+    });
+  });
+
+  describe("Group loops", () => {
+    function createReviewLoop(maxIterations: number): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            review: {
+              type: "group",
+              label: "Critique",
+              inputType: stringType,
+              outputType: stringType,
+              nodes: { critic: llm() },
+              edges: [
+                { from: "entry", to: "critic", description: "" },
+                { from: "critic", to: "exit", description: "" },
+              ],
+              entryPoint: "entry",
+              exitPoint: "exit",
+              loop: {
+                condition: {
+                  type: "if",
+                  path: ["output"],
+                  branches: {
+                    reject: { type: "const", value: true },
+                    approve: { type: "const", value: false },
+                  },
+                },
+                maxIterations,
+                nextInput: { type: "get", path: ["input"] },
+              },
+            },
+          },
+          edges: [
+            { from: "entry", to: "review", description: "" },
+            { from: "review", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should restart the group while the loop condition holds", async () => {
+      const { model } = createScriptedModel(["reject", "reject", "approve"]);
+      const engine = new WorkflowEngine({ storage, model });
+      const result = await engine.executeWorkflow(
+        createReviewLoop(5),
+        "wf",
+        "draft"
+      );
+
+      expect(result.output).toBe("approve");
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.review.critic#1")?.output).toBe("reject");
+      expect(nodeStates.get("root.review.critic#2")?.output).toBe("reject");
+      expect(nodeStates.get("root.review.critic#3")?.output).toBe("approve");
+      expect(nodeStates.get("root.review.critic#3")?.input).toBe("draft");
+      expect(nodeStates.has("root.review.critic#4")).toBe(false);
+    });
+
+    it("should stop after maxIterations", async () => {
+      const { model } = createScriptedModel(["reject", "reject"]);
+      const engine = new WorkflowEngine({ storage, model });
+      const result = await engine.executeWorkflow(
+        createReviewLoop(2),
+        "wf",
+        "draft"
+      );
+
+      expect(result.output).toBe("reject");
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.has("root.review.critic#2")).toBe(true);
+      expect(nodeStates.has("root.review.critic#3")).toBe(false);
+    });
+  });
+
+  describe("Group error handling", () => {
+    const failing = transform({ type: "if", path: ["missing"], branches: {} });
+
+    function createGuardedGroup(onError: any, nodes: any): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            guarded: {
+              type: "group",
+              label: "Guarded",
+              inputType: stringType,
+              outputType: stringType,
+              nodes,
+              edges: [
+                { from: "entry", to: "work", description: "" },
+                { from: "work", to: "exit", description: "" },
+              ],
+              entryPoint: "entry",
+              exitPoint: "exit",
+              onError,
+            },
+          },
+          edges: [
+            { from: "entry", to: "guarded", description: "" },
+            { from: "guarded", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should fail the session when a group has no error handler", async () => {
+      const engine = new WorkflowEngine({ storage });
+      await expect(
+        engine.executeWorkflow(
+          createGuardedGroup(undefined, { work: failing }),
+          "wf",
+          "x"
+        )
+      ).rejects.toThrow("No branch found");
+    });
+
+    it("should use the fallback output with the caught error", async () => {
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(
+        createGuardedGroup(
+          {
+            fallback: {
+              type: "output",
+              fn: {
+                type: "object",
+                value: {
+                  failedNode: { type: "get", path: ["error", "nodeId"] },
+                  original: { type: "get", path: ["input"] },
+                },
+              },
+            },
+          },
+          { work: failing }
+        ),
+        "wf",
+        "x"
+      );
+
+      expect(result.output).toEqual({
+        failedNode: "root.guarded.work",
+        original: "x",
+      });
+    });
+
+    it("should run the fallback node with the caught error", async () => {
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(
+        createGuardedGroup(
+          { fallback: { type: "node", nodeId: "recover" } },
+          {
+            work: failing,
+            recover: transform({ type: "get", path: ["error", "message"] }),
+          }
+        ),
+        "wf",
+        "x"
+      );
+
+      expect(result.output).toContain("No branch found");
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.guarded.work")?.status).toBe("failed");
+      expect(nodeStates.get("root.guarded.recover")?.status).toBe("completed");
+      expect(nodeStates.get("root.guarded")?.status).toBe("completed");
+    });
+
+    it("should retry the whole group before falling back", async () => {
+      let calls = 0;
+      const model = new MockLanguageModelV1({
+        doGenerate: async () => {
+          if (calls++ < 2) {
+            throw new Error("flaky tool");
+          }
+          return {
+            rawCall: { rawPrompt: null, rawSettings: {} },
+            finishReason: "stop",
+            usage: { promptTokens: 1, completionTokens: 1 },
+            text: "recovered",
+          };
+        },
+      });
+
+      const engine = new WorkflowEngine({ storage, model });
+      const result = await engine.executeWorkflow(
+        createGuardedGroup({ retries: 2 }, { work: llm() }),
+        "wf",
+        "x"
+      );
+
+      expect(result.output).toBe("recovered");
+      expect(calls).toBe(3);
+    });
+
+    it("should abort sibling branches when a child fails", async () => {
+      const model = new MockLanguageModelV1({
+        doGenerate: ({ abortSignal }) =>
+          new Promise((_, reject) => {
+            const timer = setTimeout(
+              () => reject(new Error("should have been aborted")),
+              5000
+            );
+            abortSignal?.addEventListener("abort", () => {
+              clearTimeout(timer);
+              reject(new Error("aborted"));
+            });
+          }),
+      });
+
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            slow: llm(),
+            broken: failing,
+          },
+          edges: [
+            { from: "entry", to: "slow", description: "" },
+            { from: "entry", to: "broken", description: "" },
+            {
+              from: "slow",
+              to: "exit",
+              messageInputFieldName: "slow",
+              description: "",
+            },
+            {
+              from: "broken",
+              to: "exit",
+              messageInputFieldName: "broken",
+              description: "",
+            },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+          onError: {
+            abortSiblings: true,
+            fallback: { type: "output", fn: { type: "const", value: "aborted" } },
+          },
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage, model });
+      const startedAt = Date.now();
+      const result = await engine.executeWorkflow(workflow, "wf", "x");
+
+      expect(result.output).toBe("aborted");
+      expect(Date.now() - startedAt).toBeLessThan(2000);
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.slow")?.status).toBe("failed");
+    });
+  });
+
+  describe("Pause and resume", () => {
+    function createReviewWorkflow(): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            draft: llm(),
+            publish: { ...(llm() as any), requiresHumanReview: true },
+            notes: transform({ type: "const", value: "notes" }),
+          },
+          edges: [
+            { from: "entry", to: "draft", description: "" },
+            { from: "draft", to: "publish", description: "" },
+            { from: "entry", to: "notes", description: "" },
+            {
+              from: "publish",
+              to: "exit",
+              messageInputFieldName: "published",
+              description: "",
+            },
+            {
+              from: "notes",
+              to: "exit",
+              messageInputFieldName: "notes",
+              description: "",
+            },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should pause on human review instead of failing", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      const result = await engine.executeWorkflow(
+        createReviewWorkflow(),
+        "wf",
+        "topic"
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe("waiting_for_human_review");
+      expect(result.pendingApprovalId).toBeDefined();
+      expect(storage.sessions.get(result.sessionId)?.status).toBe(
+        "waiting_for_human_review"
+      );
+
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.publish")?.status).toBe("waiting_for_review");
+      expect(nodeStates.get("root.publish")?.pendingApprovalId).toBe(
+        result.pendingApprovalId
+      );
+      expect(nodeStates.get("root.notes")?.status).toBe("completed");
+      expect(nodeStates.get("root")?.metadata?.cursor).toMatchObject({
+        completed: expect.arrayContaining(["entry", "draft", "notes"]),
+        pending: { publish: "echo:topic" },
+      });
+    });
+
+    it("should resume in a fresh engine reusing completed node outputs", async () => {
+      const first = createEchoModel(0);
+      const paused = await new WorkflowEngine({
+        storage,
+        model: first.model,
+      }).executeWorkflow(createReviewWorkflow(), "wf", "topic");
+      expect(first.stats.calls).toBe(1);
+
+      await storage.approveRequest(paused.pendingApprovalId!, "reviewer");
+
+      const second = createEchoModel(0);
+      const resumed = await new WorkflowEngine({
+        storage,
+        model: second.model,
+      }).resumeSession(paused.sessionId, paused.pendingApprovalId!);
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.output).toEqual({
+        published: "echo:echo:topic",
+        notes: "notes",
+      });
+      // Only the reviewed node runs again
+      expect(second.stats.calls).toBe(1);
+      expect(storage.sessions.get(paused.sessionId)?.status).toBe("completed");
+    });
+
+    it("should refuse to resume before the approval is granted", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      const paused = await engine.executeWorkflow(
+        createReviewWorkflow(),
+        "wf",
+        "topic"
+      );
+
+      await expect(
+        engine.resumeSession(paused.sessionId, paused.pendingApprovalId!)
+      ).rejects.toThrow("is not approved");
+    });
+
+    it("should refuse to resume with the approval of another session", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      const first = await engine.executeWorkflow(
+        createReviewWorkflow(),
+        "wf",
+        "topic",
+        { sessionId: "first" }
+      );
+      const second = await engine.executeWorkflow(
+        createReviewWorkflow(),
+        "wf",
+        "topic",
+        { sessionId: "second" }
+      );
+
+      await storage.approveRequest(first.pendingApprovalId!, "reviewer");
+
+      await expect(
+        engine.resumeSession(second.sessionId, first.pendingApprovalId!)
+      ).rejects.toThrow(
+        `Session second isn't waiting for approval request ${first.pendingApprovalId}`
+      );
+      expect(storage.sessions.get("second")?.status).toBe(
+        "waiting_for_human_review"
+      );
+    });
+
+    it("should resume a workflow call once approved", async () => {
+      await storage.saveWorkflow({
+        id: "sub",
+        name: "Sub",
+        version: "1.0.0",
+        definition: {
+          root: {
+            type: "group",
+            label: "Sub",
+            inputType: stringType,
+            outputType: stringType,
+            nodes: { shout: transform({ type: "object", value: { said: { type: "get" } } }) },
+            edges: [
+              { from: "entry", to: "shout", description: "" },
+              { from: "shout", to: "exit", description: "" },
+            ],
+            entryPoint: "entry",
+            exitPoint: "exit",
+          },
+        },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const workflow: Workflow = {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            call: {
+              type: "callWorkflow",
+              workflowRef: "sub",
+              requiresApproval: true,
+              inputType: stringType,
+              outputType: stringType,
+            },
+          },
+          edges: [
+            { from: "entry", to: "call", description: "" },
+            { from: "call", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      const engine = new WorkflowEngine({ storage });
+      const paused = await engine.executeWorkflow(workflow, "wf", "hey");
+      expect(paused.status).toBe("waiting_for_workflow_approval");
+
+      await storage.approveRequest(paused.pendingApprovalId!, "admin");
+      const resumed = await engine.resumeSession(
+        paused.sessionId,
+        paused.pendingApprovalId!
+      );
+
+      expect(resumed.output).toEqual({ said: "hey" });
+    });
+  });
+
+  describe("Session recovery", () => {
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: stringType,
+        nodes: { draft: llm(), polish: llm() },
+        edges: [
+          { from: "entry", to: "draft", description: "" },
+          { from: "draft", to: "polish", description: "" },
+          { from: "polish", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    /**
+     * Store a session interrupted while `polish` was running
+     */
+    async function seedInterruptedSession(leaseExpiresAt: Date) {
+      const startedAt = new Date(Date.now() - 60_000);
+      await storage.createSession({
+        id: "crashed",
+        workflowId: "wf",
+        workflowSnapshot: workflow,
+        status: "running",
+        createdAt: startedAt,
+        updatedAt: startedAt,
+      });
+      await storage.saveExecutionState({
+        sessionId: "crashed",
+        status: "running",
+        startedAt,
+        leaseOwner: "dead-worker",
+        heartbeatAt: new Date(leaseExpiresAt.getTime() - 30_000),
+        leaseExpiresAt,
+        nodeStates: {
+          root: { nodeId: "root", status: "running", input: "x", startedAt },
+          "root.draft": {
+            nodeId: "root.draft",
+            status: "completed",
+            input: "x",
+            output: "echo:x",
+            startedAt,
+            completedAt: startedAt,
+          },
+          "root.polish": {
+            nodeId: "root.polish",
+            status: "running",
+            input: "echo:x",
+            startedAt,
+          },
+        },
+      });
+    }
+
+    it("should hold a lease while running", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model, workerId: "w1" });
+      const result = await engine.executeWorkflow(workflow, "wf", "x");
+
+      const state = await storage.getExecutionState(result.sessionId);
+      expect(state?.status).toBe("completed");
+      expect(state?.leaseOwner).toBe("w1");
+      expect(state?.heartbeatAt).toBeInstanceOf(Date);
+      expect(state?.leaseExpiresAt!.getTime()).toBeGreaterThan(
+        state!.heartbeatAt!.getTime()
+      );
+    });
+
+    it("should resume abandoned sessions from completed nodes", async () => {
+      await seedInterruptedSession(new Date(Date.now() - 1000));
+
+      const { model, stats } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model, workerId: "w2" });
+      const recovered = await engine.recoverSessions();
+
+      expect(recovered).toHaveLength(1);
+      expect(recovered[0]).toMatchObject({
+        sessionId: "crashed",
+        action: "resumed",
+        result: { success: true, output: "echo:echo:x" },
+      });
+      expect(stats.calls).toBe(1);
+      expect(storage.sessions.get("crashed")?.status).toBe("completed");
+      expect((await storage.getExecutionState("crashed"))?.leaseOwner).toBe(
+        "w2"
+      );
+    });
+
+    it("should leave sessions with a live lease alone", async () => {
+      await seedInterruptedSession(new Date(Date.now() + 30_000));
+
+      const { model, stats } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+
+      expect(await engine.recoverSessions()).toEqual([]);
+      expect(stats.calls).toBe(0);
+      expect(storage.sessions.get("crashed")?.status).toBe("running");
+    });
+
+    it("should let only one of two concurrent recoverers resume", async () => {
+      await seedInterruptedSession(new Date(Date.now() - 1000));
+
+      const { model, stats } = createEchoModel(0);
+      const first = new WorkflowEngine({ storage, model, workerId: "w1" });
+      const second = new WorkflowEngine({ storage, model, workerId: "w2" });
+      const [a, b] = await Promise.all([
+        first.recoverSessions(),
+        second.recoverSessions(),
+      ]);
+
+      const recovered = [...a, ...b];
+      expect(recovered).toHaveLength(1);
+      expect(recovered[0]).toMatchObject({
+        sessionId: "crashed",
+        action: "resumed",
+        result: { success: true, output: "echo:echo:x" },
+      });
+      expect(stats.calls).toBe(1);
+    });
+
+    it("should fail abandoned sessions with the fail policy", async () => {
+      await seedInterruptedSession(new Date(Date.now() - 1000));
+
+      const engine = new WorkflowEngine({ storage });
+      const recovered = await engine.recoverSessions({ policy: "fail" });
+
+      expect(recovered).toEqual([
+        {
+          sessionId: "crashed",
+          action: "failed",
+          error: "Session was abandoned by its worker",
+        },
+      ]);
+      expect(storage.sessions.get("crashed")?.status).toBe("failed");
+
+      const state = await storage.getExecutionState("crashed");
+      expect(state?.status).toBe("failed");
+      expect(state?.nodeStates["root.draft"].status).toBe("completed");
+      expect(state?.nodeStates["root.polish"]).toMatchObject({
+        status: "failed",
+        error: "Session was abandoned by its worker",
+      });
+    });
+
+    it("should continue an interrupted sub-workflow session", async () => {
+      await storage.saveWorkflow({
+        id: "sub",
+        name: "Sub",
+        version: "1.0.0",
+        definition: workflow,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      const parent: Workflow = {
+        root: {
+          type: "group",
+          label: "Parent",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            call: {
+              type: "callWorkflow",
+              workflowRef: "sub",
+              inputType: stringType,
+              outputType: stringType,
+            },
+          },
+          edges: [
+            { from: "entry", to: "call", description: "" },
+            { from: "call", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+
+      // Sub-workflow session interrupted while `polish` was running
+      await seedInterruptedSession(new Date(Date.now() - 1000));
+      await storage.updateSession("crashed", {
+        metadata: { parentSessionId: "parent" },
+      });
+      await storage.createSession({
+        id: "parent",
+        workflowId: "parent",
+        workflowSnapshot: parent,
+        status: "running",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await storage.saveExecutionState({
+        sessionId: "parent",
+        status: "running",
+        leaseExpiresAt: new Date(Date.now() - 1000),
+        nodeStates: {
+          root: { nodeId: "root", status: "running", input: "x" },
+          "root.call": {
+            nodeId: "root.call",
+            status: "running",
+            input: "x",
+            metadata: { childSessionId: "crashed" },
+          },
+        },
+      });
+
+      const { model, stats } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      const recovered = await engine.recoverSessions();
+
+      expect(recovered.map((r) => r.sessionId)).toEqual(["parent"]);
+      expect(recovered[0].result?.output).toBe("echo:echo:x");
+      expect(stats.calls).toBe(1);
+      expect(storage.sessions.get("crashed")?.status).toBe("completed");
+    });
+  });
+
+  describe("Structured LLM output", () => {
+    const verdictType = {
+      type: "taggedUnion" as const,
+      value: {
+        approve: {
+          description: "The draft is ready",
+          type: {
+            type: "object" as const,
+            value: {
+              summary: { description: "Summary", type: stringType },
+            },
+          },
+        },
+        reject: { description: "The draft needs work", type: stringType },
+      },
+    };
+
+    function createReviewWorkflow(maxRetries: number): Workflow {
+      return {
+        typedefs: { Verdict: verdictType },
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            review: {
+              type: "llm",
+              maxRetries,
+              inputType: stringType,
+              outputType: { type: "ref", ref: "Verdict" },
+            },
+            publish: transform({ type: "get", path: ["summary"] }),
+          },
+          edges: [
+            { from: "entry", to: "review", description: "" },
+            {
+              from: "review",
+              to: "publish",
+              condition: { match: ["approve"] },
+              description: "",
+            },
+            { from: "publish", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should generate objects matching the output type", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel([
+          JSON.stringify({ tag: "approve", summary: "All good" }),
+        ]).model,
+      });
+      const result = await engine.executeWorkflow(
+        createReviewWorkflow(0),
+        "wf",
+        "draft"
+      );
+
+      expect(result.output).toBe("All good");
+      const nodeStates = storage.nodeStates.get(result.sessionId)!;
+      expect(nodeStates.get("root.review")?.output).toEqual({
+        tag: "approve",
+        summary: "All good",
+      });
+    });
+
+    it("should hold non-object variants in value", async () => {
+      const workflow = createReviewWorkflow(0);
+      workflow.root.edges[2] = { from: "review", to: "exit", description: "" };
+      workflow.root.edges.splice(1, 1);
+
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel([
+          JSON.stringify({ tag: "reject", value: "Too short" }),
+        ]).model,
+      });
+      const result = await engine.executeWorkflow(workflow, "wf", "draft");
+
+      expect(result.output).toEqual({ tag: "reject", value: "Too short" });
+    });
+
+    it("should retry output that doesn't match the output type", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel([
+          "not json",
+          JSON.stringify({ tag: "approve" }),
+          JSON.stringify({ tag: "approve", summary: "Fixed" }),
+        ]).model,
+      });
+      const result = await engine.executeWorkflow(
+        createReviewWorkflow(2),
+        "wf",
+        "draft"
+      );
+
+      expect(result.output).toBe("Fixed");
+      const [execution] = storage.llmExecutions;
+      expect(execution.metadata).toEqual({ attempts: 3, model: "mock-model-id" });
+      expect(execution.usage?.totalTokens).toBe(45);
+    });
+
+    it("should fail once retries are exhausted", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel(["not json", "still not json"]).model,
+      });
+
+      await expect(
+        engine.executeWorkflow(createReviewWorkflow(1), "wf", "draft")
+      ).rejects.toThrow();
+      const [session] = storage.sessions.values();
+      expect(
+        storage.nodeStates.get(session.id)?.get("root.review")?.status
+      ).toBe("failed");
+    });
+  });
+
+  describe("Message validation", () => {
+    const articleType = {
+      type: "object" as const,
+      value: {
+        title: { description: "Title", type: stringType },
+        body: { description: "Body", type: stringType },
+      },
+    };
+
+    // `shape` declares a body it doesn't produce
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: articleType,
+        nodes: {
+          shape: {
+            type: "transform",
+            fn: { type: "object", value: { title: { type: "get" } } },
+            inputType: stringType,
+            outputType: articleType,
+          },
+        },
+        edges: [
+          { from: "entry", to: "shape", description: "" },
+          { from: "shape", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    it("should not validate by default", async () => {
+      const engine = new WorkflowEngine({ storage });
+      const result = await engine.executeWorkflow(workflow, "wf", "Hello");
+
+      expect(result.output).toEqual({ title: "Hello" });
+    });
+
+    it("should fail nodes with mismatching output in strict mode", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        messageValidation: "strict",
+      });
+
+      await expect(
+        engine.executeWorkflow(workflow, "wf", "Hello")
+      ).rejects.toThrow("Invalid output of node root.shape: body: Required");
+
+      const [session] = storage.sessions.values();
+      expect(storage.nodeStates.get(session.id)?.get("root.shape")).toMatchObject(
+        {
+          status: "failed",
+          error: "Invalid output of node root.shape: body: Required",
+        }
+      );
+    });
+
+    it("should fail nodes with mismatching input in strict mode", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        messageValidation: "strict",
+      });
+
+      await expect(
+        engine.executeWorkflow(workflow, "wf", { title: "Hello" })
+      ).rejects.toThrow(
+        "Invalid input of node root: (root): Expected string, received object"
+      );
+    });
+
+    it("should record mismatches without failing in warn mode", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        messageValidation: "warn",
+      });
+      const result = await engine.executeWorkflow(workflow, "wf", "Hello");
+
+      expect(result.output).toEqual({ title: "Hello" });
+      expect(
+        storage.nodeStates.get(result.sessionId)?.get("root.shape")?.metadata
+      ).toEqual({
+        validationWarnings: [
+          "Invalid output of node root.shape: body: Required",
+        ],
+      });
+    });
+  });
+
+  describe("LLM reviewers", () => {
+    function createWorkflow(maxRetries: number): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            write: {
+              type: "llm",
+              maxRetries,
+              inputType: stringType,
+              outputType: stringType,
+              reviewers: [{ systemPrompt: REVIEWER_PROMPT }],
+            },
+          },
+          edges: [
+            { from: "entry", to: "write", description: "" },
+            { from: "write", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should return the output once reviewers approve", async () => {
+      const { model } = createReviewedModel(["Draft"], [{ tag: "approve" }]);
+      const engine = new WorkflowEngine({ storage, model });
+      await new BudgetPoolManager(storage).createPool("pool", 100_000);
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(0),
+        "wf",
+        "Write a poem",
+        { budgetPoolId: "pool" }
+      );
+
+      expect(result.output).toBe("Draft");
+      expect(storage.llmExecutions).toHaveLength(2);
+      expect(storage.llmExecutions[1].metadata).toMatchObject({
+        reviewer: 0,
+        verdict: { tag: "approve" },
+      });
+      expect(storage.budgetPools.get("pool")?.usedBudget).toBe(30);
+    });
+
+    it("should regenerate with the feedback of rejecting reviewers", async () => {
+      const { model, prompts } = createReviewedModel(
+        ["Draft", "Revised"],
+        [{ tag: "reject", feedback: "Make it rhyme" }, { tag: "approve" }]
+      );
+      const engine = new WorkflowEngine({ storage, model });
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(1),
+        "wf",
+        "Write a poem"
+      );
+
+      expect(result.output).toBe("Revised");
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toContain("Write a poem");
+      expect(prompts[1]).toContain("Draft");
+      expect(prompts[1]).toContain("- Make it rhyme");
+      expect(storage.llmExecutions).toHaveLength(4);
+    });
+
+    it("should fail when rejections exhaust maxRetries", async () => {
+      const { model } = createReviewedModel(
+        ["Draft"],
+        [{ tag: "reject", feedback: "Make it rhyme" }]
+      );
+      const engine = new WorkflowEngine({ storage, model });
+
+      await expect(
+        engine.executeWorkflow(createWorkflow(0), "wf", "Write a poem")
+      ).rejects.toThrow(
+        "Output of node root.write was rejected by its reviewers: Make it rhyme"
+      );
+    });
+  });
+
+  describe("Intrinsic tools", () => {
+    function createWorkflow(
+      maxRetries: number,
+      options: { reviewed?: boolean; tools?: WorkflowTool[] } = {}
+    ): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            write: {
+              type: "llm",
+              maxRetries,
+              inputType: stringType,
+              outputType: stringType,
+              availableTools: [
+                { type: "requestIncreaseMaxRetries" },
+                { type: "logIncident" },
+                ...(options.tools ?? []),
+              ],
+              reviewers:
+                options.reviewed === false
+                  ? undefined
+                  : [{ systemPrompt: REVIEWER_PROMPT }],
+            },
+          },
+          edges: [
+            { from: "entry", to: "write", description: "" },
+            { from: "write", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    const requestRetries = {
+      toolName: "requestIncreaseMaxRetries",
+      args: { additionalRetries: 1, reason: "The poem is hard" },
+    };
+
+    it("should log incidents queryable through storage", async () => {
+      const { model } = createReviewedModel(
+        [
+          {
+            text: "Draft",
+            toolCalls: [
+              {
+                toolName: "logIncident",
+                args: { severity: "warning", message: "Topic is vague" },
+              },
+            ],
+          },
+        ],
+        [{ tag: "approve" }]
+      );
+      const engine = new WorkflowEngine({ storage, model });
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(0),
+        "wf",
+        "Write a poem"
+      );
+
+      expect(result.output).toBe("Draft");
+      const incidents = await storage.listIncidents({
+        where: { sessionId: result.sessionId, severity: "warning" },
+      });
+      expect(incidents).toEqual([
+        expect.objectContaining({
+          nodeId: "root.write",
+          message: "Topic is vague",
+        }),
+      ]);
+    });
+
+    it("should grant retries within the auto-grant policy", async () => {
+      const { model } = createReviewedModel(
+        [{ text: "Draft", toolCalls: [requestRetries] }, "Revised"],
+        [{ tag: "reject", feedback: "Make it rhyme" }, { tag: "approve" }]
+      );
+      const engine = new WorkflowEngine({
+        storage,
+        model,
+        retryIncreasePolicy: { maxAutoGrantedRetries: 1 },
+      });
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(0),
+        "wf",
+        "Write a poem"
+      );
+
+      expect(result.output).toBe("Revised");
+      expect(storage.approvals.size).toBe(0);
+    });
+
+    it("should pause for approval and continue with the granted retries", async () => {
+      const { model, prompts } = createReviewedModel(
+        [{ text: "Draft", toolCalls: [requestRetries] }, "Revised"],
+        [{ tag: "reject", feedback: "Make it rhyme" }, { tag: "approve" }]
+      );
+      const engine = new WorkflowEngine({ storage, model });
+
+      const paused = await engine.executeWorkflow(
+        createWorkflow(0),
+        "wf",
+        "Write a poem"
+      );
+
+      expect(paused.status).toBe("waiting_for_retry_approval");
+      expect(storage.approvals.get(paused.pendingApprovalId!)).toMatchObject({
+        type: "retry_increase",
+        nodeId: "root.write",
+        context: { description: "The poem is hard", requestedRetries: 1 },
+      });
+
+      await storage.approveRequest(paused.pendingApprovalId!, "editor");
+      const result = await new WorkflowEngine({ storage, model }).resumeSession(
+        paused.sessionId,
+        paused.pendingApprovalId!
+      );
+
+      expect(result.output).toBe("Revised");
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toContain("- Make it rhyme");
+    });
+
+    it("should retry failed generations of text nodes with the granted retries", async () => {
+      const { model, prompts } = createReviewedModel(
+        [
+          {
+            text: "",
+            toolCalls: [requestRetries, { toolName: "publish", args: {} }],
+          },
+          "Published",
+        ],
+        []
+      );
+      const tools = {
+        publish: {
+          description: "Publish the poem",
+          inputSchema: z.object({}),
+          execute: async () => {
+            throw new Error("Press is down");
+          },
+        },
+      };
+      const workflow = createWorkflow(0, {
+        reviewed: false,
+        tools: [{ type: "custom", name: "publish" }],
+      });
+
+      const engine = new WorkflowEngine({
+        storage,
+        model,
+        tools,
+        retryIncreasePolicy: { maxAutoGrantedRetries: 1 },
+      });
+
+      const result = await engine.executeWorkflow(
+        workflow,
+        "wf",
+        "Write a poem"
+      );
+
+      expect(result.output).toBe("Published");
+      expect(prompts).toEqual(["Write a poem", "Write a poem"]);
+    });
+
+    it("should expire the request when the node succeeds without it", async () => {
+      const { model } = createReviewedModel(
+        [{ text: "Draft", toolCalls: [requestRetries] }],
+        [{ tag: "approve" }]
+      );
+      const engine = new WorkflowEngine({ storage, model });
+
+      const result = await engine.executeWorkflow(
+        createWorkflow(0),
+        "wf",
+        "Write a poem"
+      );
+
+      expect(result.output).toBe("Draft");
+      expect([...storage.approvals.values()]).toEqual([
+        expect.objectContaining({ type: "retry_increase", status: "expired" }),
+      ]);
+    });
+  });
+
+  describe("Tool input binding", () => {
+    function createWorkflow(overridedInput: unknown): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          context: { items: { repo: { type: "data", value: "/srv/app" } } },
+          nodes: {
+            read: {
+              type: "llm",
+              maxRetries: 0,
+              inputType: stringType,
+              outputType: stringType,
+              availableTools: [
+                { type: "custom", name: "readFile", overridedInput },
+              ],
+            },
+          },
+          edges: [
+            { from: "entry", to: "read", description: "" },
+            { from: "read", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    function createReadFileTool() {
+      const calls: unknown[] = [];
+      const tools = {
+        readFile: {
+          description: "Read a file of a repository",
+          inputSchema: z.object({
+            repo: z.string(),
+            branch: z.string(),
+            path: z.string(),
+          }),
+          execute: async (input: unknown) => {
+            calls.push(input);
+            return "contents";
+          },
+        },
+      };
+      return { tools, calls };
+    }
+
+    it("should hide bound fields from the model and merge them on execute", async () => {
+      const parameters: unknown[] = [];
+      const model = new MockLanguageModelV1({
+        doGenerate: async ({ mode }) => {
+          if (mode.type === "regular") {
+            parameters.push(...(mode.tools || []).map((t: any) => t.parameters));
+          }
+          return {
+            rawCall: { rawPrompt: null, rawSettings: {} },
+            finishReason: "stop",
+            usage: { promptTokens: 10, completionTokens: 5 },
+            text: "Done",
+            toolCalls: [
+              {
+                toolCallType: "function",
+                toolCallId: "call-1",
+                toolName: "readFile",
+                args: JSON.stringify({ path: "README.md" }),
+              },
+            ],
+          };
+        },
+      });
+      const { tools, calls } = createReadFileTool();
+      const engine = new WorkflowEngine({ storage, model, tools });
+
+      await engine.executeWorkflow(
+        createWorkflow({ repo: { $context: "repo" }, branch: "main" }),
+        "wf",
+        "Read the readme"
+      );
+
+      expect(parameters).toEqual([
+        expect.objectContaining({
+          properties: { path: { type: "string" } },
+          required: ["path"],
+        }),
+      ]);
+      expect(calls).toEqual([
+        { path: "README.md", repo: "/srv/app", branch: "main" },
+      ]);
+    });
+
+    it("should fail on context keys no enclosing group provides", async () => {
+      const { model } = createEchoModel(0);
+      const { tools } = createReadFileTool();
+      const engine = new WorkflowEngine({ storage, model, tools });
+
+      await expect(
+        engine.executeWorkflow(
+          createWorkflow({ repo: { $context: "missing" } }),
+          "wf",
+          "Read the readme"
+        )
+      ).rejects.toThrow(
+        "Context key missing isn't a data item of an enclosing group"
+      );
+    });
+  });
+
+  describe("LLM execution cost", () => {
+    const pricing = {
+      "mock-model-id": { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+    };
+
+    function createWorkflow(): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: { write: llm() },
+          edges: [
+            { from: "entry", to: "write", description: "" },
+            { from: "write", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    it("should store the cost and charge it to currency pools", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel(["Done"]).model,
+        pricing,
+      });
+      await new BudgetPoolManager(storage).createPool(
+        "pool",
+        1,
+        undefined,
+        undefined,
+        "currency"
+      );
+
+      await engine.executeWorkflow(createWorkflow(), "wf", "Write", {
+        budgetPoolId: "pool",
+      });
+
+      expect(storage.llmExecutions[0].cost).toBeCloseTo(0.000105);
+      expect(storage.llmExecutions[0].metadata?.model).toBe("mock-model-id");
+      expect(storage.budgetPools.get("pool")?.usedBudget).toBeCloseTo(0.000105);
+    });
+
+    it("should fail nodes of an unpriced model before calling it", async () => {
+      const engine = new WorkflowEngine({
+        storage,
+        model: createScriptedModel(["Done"]).model,
+      });
+      await new BudgetPoolManager(storage).createPool(
+        "pool",
+        1,
+        undefined,
+        undefined,
+        "currency"
+      );
+
+      await expect(
+        engine.executeWorkflow(createWorkflow(), "wf", "Write", {
+          budgetPoolId: "pool",
+        })
+      ).rejects.toThrow("counts currency, but the execution has no cost");
+      expect(storage.llmExecutions).toHaveLength(0);
+    });
+  });
+
+  describe("Budget reservation", () => {
+    it("should not make calls that could exceed the pool", async () => {
+      const { model, stats } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      await new BudgetPoolManager(storage).createPool("pool", 100);
+
+      const result = await engine.executeWorkflow(
+        createWorkflow({ write: llm({ maxTokens: 500 }) }, [
+          { from: "entry", to: "write", description: "" },
+          { from: "write", to: "exit", description: "" },
+        ]),
+        "wf",
+        "Write",
+        { budgetPoolId: "pool" }
+      );
+
+      expect(result.status).toBe("waiting_for_budget_approval");
+      expect(stats.calls).toBe(0);
+      expect(storage.budgetPools.get("pool")).toMatchObject({
+        usedBudget: 0,
+        reservedBudget: 0,
+      });
+    });
+
+    it("should settle the actual usage and release the rest", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      await new BudgetPoolManager(storage).createPool("pool", 100);
+
+      await engine.executeWorkflow(
+        createWorkflow({ write: llm({ maxTokens: 50 }) }, [
+          { from: "entry", to: "write", description: "" },
+          { from: "write", to: "exit", description: "" },
+        ]),
+        "wf",
+        "Write",
+        { budgetPoolId: "pool" }
+      );
+
+      expect(storage.budgetPools.get("pool")).toMatchObject({
+        usedBudget: 15,
+        remainingBudget: 85,
+        reservedBudget: 0,
+      });
+    });
+
+    it("should not let concurrent branches overspend a shared pool", async () => {
+      const { model, stats } = createEchoModel(20);
+      const engine = new WorkflowEngine({ storage, model });
+      const budgetManager = new BudgetPoolManager(storage);
+      await budgetManager.createPool("org", 100);
+      await budgetManager.createPool("team", 1000, "org");
+
+      // Each branch reserves 52 tokens, only one fits in the parent pool
+      const result = await engine.executeWorkflow(
+        createWorkflow(
+          { a: llm({ maxTokens: 50 }), b: llm({ maxTokens: 50 }) },
+          [
+            { from: "entry", to: "a", description: "" },
+            { from: "entry", to: "b", description: "" },
+            {
+              from: "a",
+              to: "exit",
+              messageInputFieldName: "a",
+              description: "",
+            },
+            {
+              from: "b",
+              to: "exit",
+              messageInputFieldName: "b",
+              description: "",
+            },
+          ]
+        ),
+        "wf",
+        "Write",
+        { budgetPoolId: "team" }
+      );
+
+      expect(result.status).toBe("waiting_for_budget_approval");
+      expect(stats.calls).toBe(1);
+      expect(storage.budgetPools.get("org")?.usedBudget).toBe(15);
+    });
+
+    it("should not reserve for outputs whose type doesn't compile", async () => {
+      const { model, stats } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      await new BudgetPoolManager(storage).createPool("pool", 100);
+
+      const outputType = {
+        type: "object" as const,
+        value: { post: { type: { type: "ref" as const, ref: "Post" } } },
+      };
+
+      await expect(
+        engine.executeWorkflow(
+          createWorkflow({ write: llm({ maxTokens: 50, outputType }) }, [
+            { from: "entry", to: "write", description: "" },
+            { from: "write", to: "exit", description: "" },
+          ]),
+          "wf",
+          "Write",
+          { budgetPoolId: "pool" }
+        )
+      ).rejects.toThrow("Unknown type reference: Post");
+
+      expect(stats.calls).toBe(0);
+      expect(storage.budgetPools.get("pool")?.reservedBudget).toBe(0);
+    });
+
+    it("should settle the reservation when saving the execution fails", async () => {
+      const { model } = createEchoModel(0);
+      const engine = new WorkflowEngine({ storage, model });
+      await new BudgetPoolManager(storage).createPool("pool", 100);
+      storage.saveLLMExecution = async () => {
+        throw new Error("Disk full");
+      };
+
+      await expect(
+        engine.executeWorkflow(
+          createWorkflow({ write: llm({ maxTokens: 50 }) }, [
+            { from: "entry", to: "write", description: "" },
+            { from: "write", to: "exit", description: "" },
+          ]),
+          "wf",
+          "Write",
+          { budgetPoolId: "pool" }
+        )
+      ).rejects.toThrow("Disk full");
+
+      expect(storage.budgetPools.get("pool")).toMatchObject({
+        usedBudget: 15,
+        reservedBudget: 0,
+      });
+    });
+  });
+
+  describe("Budget increase approvals", () => {
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: stringType,
+        nodes: {
+          write: { ...(llm() as any), maxTokens: 50 },
+        },
+        edges: [
+          { from: "entry", to: "write", description: "" },
+          { from: "write", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    async function pauseOnExhaustedPool() {
+      const { model, stats } = createEchoModel(0);
+      const app = createApp({ storage, model });
+      await app.saveWorkflow("wf", "Budgeted", workflow);
+      await app.budgetManager.createPool("org", 1000);
+      await app.budgetManager.createPool("team", 30, "org");
+
+      // Start the run anyway, so it pauses when the pool runs out
+      const paused = await app.executeWorkflow("wf", "Write", {
+        budgetPoolId: "team",
+        refuseOverBudget: false,
+      });
+      return { app, stats, paused };
+    }
+
+    it("should pause for a budget increase when the pool runs out", async () => {
+      const { stats, paused } = await pauseOnExhaustedPool();
+
+      expect(paused.status).toBe("waiting_for_budget_approval");
+      expect(stats.calls).toBe(0);
+
+      const approval = await storage.getApprovalRequest(
+        paused.pendingApprovalId!
+      );
+      expect(approval).toMatchObject({
+        type: "budget_increase",
+        nodeId: "root.write",
+        status: "pending",
+      });
+      // The call reserves 2 prompt tokens and 50 completion tokens
+      expect(approval?.context).toMatchObject({
+        requestedBudget: 22,
+        currentUsage: 0,
+        metadata: { budgetPoolId: "team" },
+      });
+      expect(
+        (await storage.getExecutionState(paused.sessionId))?.nodeStates[
+          "root.write"
+        ]
+      ).toMatchObject({ status: "waiting_for_approval" });
+    });
+
+    it("should increase the pool on approval and resume the node", async () => {
+      const { app, stats, paused } = await pauseOnExhaustedPool();
+
+      await app.approveRequest(paused.pendingApprovalId!, "finance");
+      expect(storage.budgetPools.get("team")?.totalBudget).toBe(52);
+
+      const resumed = await app.resumeSession(
+        paused.sessionId,
+        paused.pendingApprovalId!
+      );
+      expect(resumed).toMatchObject({
+        status: "completed",
+        output: "echo:Write",
+      });
+      expect(stats.calls).toBe(1);
+      expect(storage.budgetPools.get("team")).toMatchObject({
+        usedBudget: 15,
+        reservedBudget: 0,
+      });
+    });
+
+    it("should grant the increase once under concurrent approvals", async () => {
+      const { app, paused } = await pauseOnExhaustedPool();
+
+      await Promise.all([
+        app.approveRequest(paused.pendingApprovalId!, "finance"),
+        app.approveRequest(paused.pendingApprovalId!, "cfo"),
+      ]);
+
+      expect(storage.budgetPools.get("team")?.totalBudget).toBe(52);
+    });
+
+    it("should fail the node when the increase is rejected", async () => {
+      const { app, stats, paused } = await pauseOnExhaustedPool();
+
+      await app.rejectRequest(paused.pendingApprovalId!, "finance", "No");
+      await expect(
+        app.resumeSession(paused.sessionId, paused.pendingApprovalId!)
+      ).rejects.toThrow(
+        `Approval request ${paused.pendingApprovalId} was rejected`
+      );
+
+      expect(stats.calls).toBe(0);
+      expect(storage.budgetPools.get("team")?.totalBudget).toBe(30);
+      expect(storage.sessions.get(paused.sessionId)?.status).toBe("failed");
+      expect(
+        (await storage.getExecutionState(paused.sessionId))?.nodeStates[
+          "root.write"
+        ]
+      ).toMatchObject({ status: "failed" });
+    });
+  });
+
+  describe("Workflow call budgets", () => {
+    const subWorkflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Sub",
+        inputType: stringType,
+        outputType: stringType,
+        nodes: {
+          draft: { ...(llm() as any), maxTokens: 50 },
+          polish: { ...(llm() as any), maxTokens: 50 },
+        },
+        edges: [
+          { from: "entry", to: "draft", description: "" },
+          { from: "draft", to: "polish", description: "" },
+          { from: "polish", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    function createCaller(budget: WorkflowCallBudget): Workflow {
+      return {
+        root: {
+          type: "group",
+          label: "Main",
+          inputType: stringType,
+          outputType: stringType,
+          nodes: {
+            call: {
+              type: "callWorkflow",
+              workflowRef: "sub",
+              budget,
+              inputType: stringType,
+              outputType: stringType,
+            },
+          },
+          edges: [
+            { from: "entry", to: "call", description: "" },
+            { from: "call", to: "exit", description: "" },
+          ],
+          entryPoint: "entry",
+          exitPoint: "exit",
+        },
+      };
+    }
+
+    async function runCaller(budget: WorkflowCallBudget) {
+      const { model, stats } = createEchoModel(0);
+      const app = createApp({ storage, model });
+      await app.saveWorkflow("sub", "Sub", subWorkflow);
+      await app.saveWorkflow("main", "Main", createCaller(budget));
+      await app.budgetManager.createPool("org", 1000);
+
+      const paused = await app.executeWorkflow("main", "Write", {
+        budgetPoolId: "org",
+      });
+      return { app, stats, paused };
+    }
+
+    it("should cap the called workflow with a child pool", async () => {
+      // The second call reserves 54 tokens, with 45 left in the child pool
+      const { stats, paused } = await runCaller({ amount: 60 });
+
+      expect(paused.status).toBe("waiting_for_budget_approval");
+      expect(stats.calls).toBe(1);
+
+      const [pool] = await storage.getChildBudgetPools("org");
+      expect(pool).toMatchObject({
+        totalBudget: 60,
+        usedBudget: 15,
+        metadata: { nodeId: "root.call" },
+      });
+      expect(storage.budgetPools.get("org")?.usedBudget).toBe(15);
+
+      const approval = await storage.getApprovalRequest(
+        paused.pendingApprovalId!
+      );
+      expect(approval?.context).toMatchObject({
+        requestedBudget: 9,
+        metadata: { budgetPoolId: pool.id },
+      });
+    });
+
+    it("should continue in an independent pool once approved", async () => {
+      const { app, stats, paused } = await runCaller({
+        amount: 60,
+        independentAmount: 500,
+      });
+
+      const approval = await storage.getApprovalRequest(
+        paused.pendingApprovalId!
+      );
+      expect(approval?.context).toMatchObject({
+        requestedBudget: 500,
+        metadata: { independent: true },
+      });
+
+      await app.approveRequest(paused.pendingApprovalId!, "finance");
+      const resumed = await app.resumeSession(
+        paused.sessionId,
+        paused.pendingApprovalId!
+      );
+
+      expect(resumed).toMatchObject({
+        status: "completed",
+        output: "echo:echo:Write",
+      });
+      expect(stats.calls).toBe(2);
+
+      // Only the first call was charged to the caller's pool
+      const [pool] = await storage.getChildBudgetPools("org");
+      expect(storage.budgetPools.get("org")?.usedBudget).toBe(15);
+      expect(
+        storage.budgetPools.get(
+          `${pool.id}:independent:${paused.pendingApprovalId}`
+        )
+      ).toMatchObject({
+        parentPoolId: undefined,
+        totalBudget: 500,
+        usedBudget: 15,
+      });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { MockLanguageModelV1 } from "ai/test";
+import type { WorkflowNode, WorkflowNodeLLM } from "@aaow/types";
+import { createApp } from "../src/app";
+import { estimateWorkflowCost } from "../src/forecast";
+import { chain, createWorkflow, llm, stringType } from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+/**
+ * LLM node generating up to 100 tokens per call
+ */
+function cappedLLM(extra: Partial<WorkflowNodeLLM> = {}): WorkflowNode {
+  return llm({ maxTokens: 100, ...extra });
+}
+
+// 30 characters, about 10 tokens
+const input = "x".repeat(30);
+
+describe("Workflow cost forecasting", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it("should bound an LLM node from its retries and reviewers", async () => {
+    const workflow = createWorkflow(
+      { write: cappedLLM({ maxRetries: 2, reviewers: [{}] }) },
+      chain("write")
+    );
+
+    const estimate = await estimateWorkflowCost("wf", workflow, input, {
+      storage,
+      pricing: { inputPerMillionTokens: 1, outputPerMillionTokens: 2 },
+    });
+
+    // One round of a generation and a review, up to 3 rounds. A round sends
+    // the input to the generation, then the input and output to up to 4
+    // review attempts.
+    expect(estimate.llmCalls).toEqual({ min: 2, max: 6 });
+    expect(estimate.tokens).toEqual({ min: 20, max: 2850 });
+    expect(estimate.cost).toEqual({ min: 20 / 1e6, max: 4350 / 1e6 });
+    expect(estimate.nodes["root.write"].basis).toBe("heuristic");
+  });
+
+  it("should retry failed text generations", async () => {
+    const workflow = createWorkflow(
+      { write: cappedLLM({ maxRetries: 2 }) },
+      chain("write")
+    );
+
+    const estimate = await estimateWorkflowCost("wf", workflow, input, {
+      storage,
+    });
+
+    // Up to 3 generations of the input and 100 tokens
+    expect(estimate.llmCalls).toEqual({ min: 1, max: 3 });
+    expect(estimate.tokens).toEqual({ min: 10, max: 330 });
+  });
+
+  it("should account for loops, optional nodes and called workflows", async () => {
+    await storage.saveWorkflow({
+      id: "sub",
+      name: "Sub",
+      version: "1.0.0",
+      definition: createWorkflow(
+        { summarize: cappedLLM() },
+        chain("summarize")
+      ),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const workflow = createWorkflow(
+      {
+        draft: cappedLLM({
+          outputType: {
+            type: "enum",
+            value: ["short", "long"],
+          },
+        }),
+        expand: cappedLLM(),
+        call: {
+          type: "callWorkflow",
+          workflowRef: "sub",
+          inputType: stringType,
+          outputType: stringType,
+        },
+        rescue: cappedLLM(),
+      },
+      [
+        { from: "entry", to: "draft", description: "" },
+        {
+          from: "draft",
+          to: "expand",
+          condition: { match: ["long"] },
+          description: "",
+        },
+        { from: "draft", to: "call", description: "" },
+        { from: "expand", to: "exit", description: "" },
+        { from: "call", to: "exit", description: "" },
+      ],
+      {
+        loop: { condition: { type: "get" } as any, maxIterations: 3 },
+        onError: { fallback: { type: "node", nodeId: "rescue" } },
+      }
+    );
+
+    const estimate = await estimateWorkflowCost("wf", workflow, input, {
+      storage,
+    });
+
+    expect(estimate.nodes).toMatchObject({
+      "root.draft": { llmCalls: { min: 1, max: 3 } },
+      "root.expand": { llmCalls: { min: 0, max: 3 } },
+      "root.call/root.summarize": { llmCalls: { min: 1, max: 3 } },
+      "root.rescue": { llmCalls: { min: 0, max: 1 } },
+    });
+    expect(estimate.llmCalls).toEqual({ min: 2, max: 10 });
+  });
+
+  it("should size calls from past executions", async () => {
+    const model = new MockLanguageModelV1({
+      doGenerate: async () => ({
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text: "Done",
+      }),
+    });
+    const app = createApp({ storage, model });
+    await app.saveWorkflow(
+      "wf",
+      "Workflow",
+      createWorkflow({ write: cappedLLM() }, chain("write"))
+    );
+    await app.executeWorkflow("wf", input);
+
+    const estimate = await app.estimateWorkflowCost("wf", input);
+
+    expect(estimate.nodes["root.write"]).toEqual({
+      llmCalls: { min: 1, max: 1 },
+      tokens: { min: 15, max: 15 },
+      basis: "history",
+    });
+  });
+
+  it("should refuse to start a workflow that may exceed its pool", async () => {
+    const app = createApp({ storage });
+    await app.saveWorkflow(
+      "wf",
+      "Workflow",
+      createWorkflow({ write: cappedLLM() }, chain("write"))
+    );
+    await app.budgetManager.createPool("pool", 200);
+    await app.budgetManager.reserveBudget("pool", 100);
+
+    await expect(
+      app.executeWorkflow("wf", input, { budgetPoolId: "pool" })
+    ).rejects.toThrow(
+      "Workflow wf may spend up to 110, more than the available budget of pool pool (100)"
+    );
+    expect(storage.sessions.size).toBe(0);
+  });
+
+  it("should include the calls of every loop iteration in the history", async () => {
+    const model = new MockLanguageModelV1({
+      doGenerate: async () => ({
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text: "Done",
+      }),
+    });
+    const app = createApp({ storage, model });
+    await app.saveWorkflow(
+      "wf",
+      "Workflow",
+      createWorkflow({ write: cappedLLM() }, chain("write"), {
+        loop: { condition: { type: "const", value: true }, maxIterations: 2 },
+      })
+    );
+    await app.executeWorkflow("wf", input);
+
+    // Iterations record their calls as root.write#1 and root.write#2
+    const estimate = await app.estimateWorkflowCost("wf", input);
+    expect(estimate.nodes["root.write"]).toEqual({
+      llmCalls: { min: 1, max: 2 },
+      tokens: { min: 15, max: 30 },
+      basis: "history",
+    });
+  });
+
+  it("should leave the calls of generators unbounded", async () => {
+    const workflow = createWorkflow(
+      {
+        plan: {
+          type: "generator",
+          generatorFn: "plan",
+          inputType: stringType,
+          outputType: stringType,
+        },
+        call: {
+          type: "callWorkflow",
+          workflowRef: "summarizer",
+          inputType: stringType,
+          outputType: stringType,
+        },
+        // Not connected by edges, only called
+        summarize: cappedLLM(),
+      },
+      [
+        { from: "entry", to: "plan", description: "" },
+        { from: "plan", to: "call", description: "" },
+        { from: "call", to: "exit", description: "" },
+      ],
+      {
+        context: {
+          items: { summarizer: { type: "nodeRef", nodeId: "summarize" } },
+        },
+      }
+    );
+
+    const estimate = await estimateWorkflowCost("wf", workflow, input, {
+      storage,
+    });
+
+    expect(Object.keys(estimate.nodes).sort()).toEqual([
+      "root.call.summarizer",
+      "root.plan.call.summarizer",
+      "root.plan.summarize",
+    ]);
+    expect(estimate.nodes["root.call.summarizer"].llmCalls).toEqual({
+      min: 1,
+      max: 1,
+    });
+    expect(estimate.nodes["root.plan.summarize"]).toMatchObject({
+      llmCalls: { min: 0, max: Infinity },
+      tokens: { min: 0, max: Infinity },
+    });
+    expect(estimate.llmCalls).toEqual({ min: 1, max: Infinity });
+  });
+
+  it("should refuse to start a workflow whose calls are unbounded", async () => {
+    const app = createApp({ storage });
+    await app.saveWorkflow(
+      "wf",
+      "Workflow",
+      createWorkflow(
+        {
+          plan: {
+          type: "generator",
+          generatorFn: "plan",
+          inputType: stringType,
+          outputType: stringType,
+        },
+          write: cappedLLM(),
+        },
+        chain("plan")
+      )
+    );
+    await app.budgetManager.createPool("pool", 1000);
+
+    await expect(
+      app.executeWorkflow("wf", input, { budgetPoolId: "pool" })
+    ).rejects.toThrow(
+      "Workflow wf may spend without bound, more than the available budget of pool pool (1000)"
+    );
+  });
+
+  it("should refuse to bound recursive workflows", async () => {
+    const workflow = createWorkflow(
+      {
+        again: {
+          type: "callWorkflow",
+          workflowRef: "wf",
+          inputType: stringType,
+          outputType: stringType,
+        },
+      },
+      chain("again")
+    );
+    await storage.saveWorkflow({
+      id: "wf",
+      name: "Recursive",
+      version: "1.0.0",
+      definition: workflow,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await expect(
+      estimateWorkflowCost("wf", workflow, input, { storage })
+    ).rejects.toThrow("Workflow wf calls itself, its cost can't be bounded");
+  });
+});
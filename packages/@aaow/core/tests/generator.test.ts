@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { WorkflowNode, WorkflowNodeGroup } from "@aaow/types";
+import { WorkflowEngine } from "../src/engine";
+import {
+  createScriptedModel,
+  createWorkflow,
+  llm,
+  stringType,
+  transform,
+} from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+function generator(
+  generatorFn: string,
+  contextAccess?: string[]
+): WorkflowNode {
+  return {
+    type: "generator",
+    generatorFn,
+    contextAccess,
+    inputType: stringType,
+    outputType: stringType,
+  };
+}
+
+describe("Generator nodes", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+  });
+
+  it("should run an agent loop over sibling nodes and stream its steps", async () => {
+    const { model, stats } = createScriptedModel(["search", "read", "done"]);
+    const engine = new WorkflowEngine({
+      storage,
+      model,
+      generators: {
+        agent: async function* ({ input, call }) {
+          let steps = 0;
+          for (;;) {
+            const action = await call("plan", `${input} after ${steps}`);
+            if (action === "done") {
+              return `${steps} steps`;
+            }
+            steps++;
+            yield action;
+          }
+        },
+      },
+    });
+
+    const workflow = createWorkflow(
+      {
+        agent: generator("agent"),
+        plan: llm(),
+        steps: {
+          type: "stream",
+          source: { type: "node", nodeId: "agent" },
+          inputType: stringType,
+          outputType: { type: "array", of: stringType },
+        },
+      },
+      [
+        { from: "entry", to: "agent", description: "" },
+        { from: "entry", to: "steps", description: "" },
+        {
+          from: "agent",
+          to: "exit",
+          messageInputFieldName: "result",
+          description: "",
+        },
+        {
+          from: "steps",
+          to: "exit",
+          messageInputFieldName: "steps",
+          description: "",
+        },
+      ]
+    );
+
+    const result = await engine.executeWorkflow(workflow, "wf", "task");
+
+    expect(result.output).toEqual({
+      result: "2 steps",
+      steps: ["search", "read"],
+    });
+    expect(stats.calls).toBe(3);
+    for (const nodeId of ["root.agent", "root.steps"]) {
+      const events = await storage.getStreamEvents(
+        `${result.sessionId}:${nodeId}`
+      );
+      expect(events.map((e) => e.data)).toEqual(["search", "read"]);
+    }
+
+    const state = await storage.getExecutionState(result.sessionId);
+    expect(state?.nodeStates["root.agent.plan#2"]).toMatchObject({
+      status: "completed",
+      input: "task after 1",
+      output: "read",
+    });
+  });
+
+  it("should call the context items it has access to", async () => {
+    await storage.saveWorkflow({
+      id: "sub",
+      name: "Sub",
+      version: "1.0.0",
+      definition: createWorkflow(
+        {
+          wrap: transform({
+            type: "object",
+            value: { wrapped: { type: "get" } },
+          }),
+        },
+        [
+          { from: "entry", to: "wrap", description: "" },
+          { from: "wrap", to: "exit", description: "" },
+        ]
+      ),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const engine = new WorkflowEngine({
+      storage,
+      generators: {
+        greet: async function* ({ context, call }) {
+          const said = await call("echo", context.greeting);
+          const wrapped = await call("wrap", said);
+          return { said, wrapped };
+        },
+        snoop: async function* ({ call }) {
+          return call("secret", "");
+        },
+      },
+    });
+
+    const nodes: WorkflowNodeGroup["nodes"] = {
+      greet: generator("greet", ["greeting", "echo", "wrap"]),
+      snoop: generator("snoop"),
+      repeat: transform({ type: "object", value: { said: { type: "get" } } }),
+    };
+    const context = {
+      items: {
+        greeting: { type: "data" as const, value: "hello" },
+        echo: { type: "nodeRef" as const, nodeId: "repeat" },
+        wrap: { type: "workflowRef" as const, workflowId: "sub" },
+        secret: { type: "data" as const, value: "hidden" },
+      },
+    };
+
+    const result = await engine.executeWorkflow(
+      createWorkflow(
+        nodes,
+        [
+          { from: "entry", to: "greet", description: "" },
+          { from: "greet", to: "exit", description: "" },
+        ],
+        { context }
+      ),
+      "wf",
+      "go"
+    );
+    expect(result.output).toEqual({
+      said: { said: "hello" },
+      wrapped: { wrapped: { said: "hello" } },
+    });
+
+    await expect(
+      engine.executeWorkflow(
+        createWorkflow(
+          nodes,
+          [
+            { from: "entry", to: "snoop", description: "" },
+            { from: "snoop", to: "exit", description: "" },
+          ],
+          { context }
+        ),
+        "wf",
+        "go"
+      )
+    ).rejects.toThrow(
+      "Generator node root.snoop can't call secret: no such sibling node or accessible context item"
+    );
+  });
+
+  it("should replay completed calls when resumed", async () => {
+    await storage.saveWorkflow({
+      id: "publish",
+      name: "Publish",
+      version: "1.0.0",
+      definition: createWorkflow({}, [
+        { from: "entry", to: "exit", description: "" },
+      ]),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const { model, stats } = createScriptedModel(["draft"]);
+    const engine = new WorkflowEngine({
+      storage,
+      model,
+      generators: {
+        write: async function* ({ input, call }) {
+          const draft = await call("compose", input);
+          yield draft;
+          return call("publish", draft);
+        },
+      },
+    });
+
+    const workflow = createWorkflow(
+      {
+        write: generator("write"),
+        compose: llm(),
+        publish: {
+          type: "callWorkflow",
+          workflowRef: "publish",
+          requiresApproval: true,
+          inputType: stringType,
+          outputType: stringType,
+        },
+      },
+      [
+        { from: "entry", to: "write", description: "" },
+        { from: "write", to: "exit", description: "" },
+      ]
+    );
+
+    const paused = await engine.executeWorkflow(workflow, "wf", "topic");
+    expect(paused.status).toBe("waiting_for_workflow_approval");
+
+    await storage.approveRequest(paused.pendingApprovalId!, "editor");
+    const resumed = await engine.resumeSession(
+      paused.sessionId,
+      paused.pendingApprovalId!
+    );
+
+    expect(resumed.output).toBe("draft");
+    expect(stats.calls).toBe(1);
+    expect(storage.streamEvents).toHaveLength(1);
+  });
+
+  it("should fail on unknown generators", async () => {
+    const engine = new WorkflowEngine({ storage });
+
+    await expect(
+      engine.executeWorkflow(
+        createWorkflow({ run: generator("missing") }, [
+          { from: "entry", to: "run", description: "" },
+          { from: "run", to: "exit", description: "" },
+        ]),
+        "wf",
+        "go"
+      )
+    ).rejects.toThrow("Generator missing not found");
+  });
+});
@@ -0,0 +1,111 @@
+import { MockLanguageModelV1 } from "ai/test";
+import type {
+  Workflow,
+  WorkflowNode,
+  WorkflowNodeGroup,
+  WorkflowNodeLLM,
+  WorkflowNodeTransform,
+} from "@aaow/types";
+import type { FakeClock } from "../../src/clock";
+
+export const stringType = { type: "string" as const };
+
+/**
+ * Text LLM node without retries
+ */
+export function llm(extra: Partial<WorkflowNodeLLM> = {}): WorkflowNode {
+  return {
+    type: "llm",
+    maxRetries: 0,
+    inputType: stringType,
+    outputType: stringType,
+    ...extra,
+  };
+}
+
+/**
+ * Transform node between strings, unless other types are given
+ */
+export function transform(
+  fn: WorkflowNodeTransform["fn"],
+  extra: Partial<WorkflowNodeTransform> = {}
+): WorkflowNode {
+  return {
+    type: "transform",
+    fn,
+    inputType: stringType,
+    outputType: stringType,
+    ...extra,
+  };
+}
+
+/**
+ * Workflow whose root group runs the nodes from `entry` to `exit`
+ */
+export function createWorkflow(
+  nodes: WorkflowNodeGroup["nodes"],
+  edges: WorkflowNodeGroup["edges"],
+  extra: Partial<WorkflowNodeGroup> = {},
+  typedefs?: Workflow["typedefs"]
+): Workflow {
+  return {
+    typedefs,
+    root: {
+      type: "group",
+      label: "Main",
+      inputType: stringType,
+      outputType: stringType,
+      nodes,
+      edges,
+      entryPoint: "entry",
+      exitPoint: "exit",
+      ...extra,
+    },
+  };
+}
+
+/**
+ * Chain of edges from the entry point through the nodes to the exit point
+ */
+export function chain(...nodeIds: string[]): WorkflowNodeGroup["edges"] {
+  const path = ["entry", ...nodeIds, "exit"];
+  return path
+    .slice(1)
+    .map((to, index) => ({ from: path[index], to, description: "" }));
+}
+
+/**
+ * Mock model replying with the given texts in turn, and failing once they
+ * run out
+ *
+ * With a fake clock, each reply comes after `delayMs` of the clock.
+ */
+export function createScriptedModel(
+  replies: string[],
+  options: { clock?: FakeClock; delayMs?: number } = {}
+) {
+  const { clock, delayMs = 100 } = options;
+  const stats = { calls: 0 };
+  const model = new MockLanguageModelV1({
+    defaultObjectGenerationMode: "json",
+    doGenerate: async () => {
+      const text = replies[stats.calls++];
+      if (clock) {
+        await new Promise<void>((resolve) =>
+          clock.setTimeout(resolve, delayMs)
+        );
+      }
+      if (text === undefined) {
+        throw new Error("Out of replies");
+      }
+
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+        text,
+      };
+    },
+  });
+  return { model, stats };
+}
@@ -0,0 +1,473 @@
+import type {
+  ApprovalRequest,
+  BudgetConsumption,
+  BudgetPool,
+  BudgetUsageRecord,
+  Incident,
+  LLMExecutionResult,
+  NodeExecutionState,
+  QueryFilter,
+  Session,
+  SessionLease,
+  StorageAdapter,
+  StoredWorkflow,
+  StreamEvent,
+  ToolCallLog,
+  WorkflowExecutionState,
+} from "@aaow/types";
+
+type StoredLLMExecution = LLMExecutionResult & {
+  id: string;
+  timestamp: Date;
+  sessionId: string;
+  nodeId: string;
+};
+
+function matches<T>(item: T, where?: Partial<T>): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(
+    ([key, value]) => value === undefined || (item as any)[key] === value
+  );
+}
+
+function applyFilter<T>(items: T[], filter?: QueryFilter<T>): T[] {
+  let result = items.filter((item) => matches(item, filter?.where));
+  if (filter?.orderBy) {
+    const { field, direction } = filter.orderBy;
+    result = [...result].sort((a, b) => {
+      const order = a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0;
+      return direction === "asc" ? order : -order;
+    });
+  }
+  const offset = filter?.offset ?? 0;
+  return result.slice(
+    offset,
+    filter?.limit !== undefined ? offset + filter.limit : undefined
+  );
+}
+
+/**
+ * In-memory storage adapter for engine tests
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  workflows = new Map<string, StoredWorkflow>();
+  sessions = new Map<string, Session>();
+  executionStates = new Map<string, Omit<WorkflowExecutionState, "nodeStates">>();
+  nodeStates = new Map<string, Map<string, NodeExecutionState>>();
+  llmExecutions: StoredLLMExecution[] = [];
+  budgetPools = new Map<string, BudgetPool>();
+  budgetUsage: BudgetUsageRecord[] = [];
+  toolCalls: ToolCallLog[] = [];
+  approvals = new Map<string, ApprovalRequest>();
+  incidents: Incident[] = [];
+  streamEvents: StreamEvent[] = [];
+
+  async initialize(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  async beginTransaction() {
+    return {
+      commit: async () => {},
+      rollback: async () => {},
+    };
+  }
+
+  // ==================== Workflow Operations ====================
+
+  async saveWorkflow(workflow: StoredWorkflow): Promise<void> {
+    this.workflows.set(workflow.id, workflow);
+  }
+
+  async getWorkflow(id: string): Promise<StoredWorkflow | null> {
+    return this.workflows.get(id) ?? null;
+  }
+
+  async listWorkflows(
+    filter?: QueryFilter<StoredWorkflow>
+  ): Promise<StoredWorkflow[]> {
+    return applyFilter([...this.workflows.values()], filter);
+  }
+
+  async updateWorkflow(
+    id: string,
+    workflow: Partial<StoredWorkflow>
+  ): Promise<void> {
+    const existing = this.workflows.get(id);
+    if (!existing) throw new Error(`Workflow ${id} not found`);
+    this.workflows.set(id, { ...existing, ...workflow });
+  }
+
+  async deleteWorkflow(id: string): Promise<void> {
+    this.workflows.delete(id);
+  }
+
+  // ==================== Session Operations ====================
+
+  async createSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async getSession(id: string): Promise<Session | null> {
+    return this.sessions.get(id) ?? null;
+  }
+
+  async listSessions(filter?: QueryFilter<Session>): Promise<Session[]> {
+    return applyFilter([...this.sessions.values()], filter);
+  }
+
+  async updateSession(id: string, session: Partial<Session>): Promise<void> {
+    const existing = this.sessions.get(id);
+    if (!existing) throw new Error(`Session ${id} not found`);
+    this.sessions.set(id, { ...existing, ...session });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  // ==================== Execution State Operations ====================
+
+  async saveExecutionState(state: WorkflowExecutionState): Promise<void> {
+    const { nodeStates, ...rest } = state;
+    const existing = this.executionStates.get(state.sessionId);
+    this.executionStates.set(
+      state.sessionId,
+      existing
+        ? {
+            ...rest,
+            leaseOwner: existing.leaseOwner,
+            heartbeatAt: existing.heartbeatAt,
+            leaseExpiresAt: existing.leaseExpiresAt,
+          }
+        : rest
+    );
+    for (const [nodeId, nodeState] of Object.entries(nodeStates)) {
+      await this.updateNodeState(state.sessionId, nodeId, nodeState);
+    }
+  }
+
+  async claimSessionLease(
+    sessionId: string,
+    lease: SessionLease,
+    expected: Pick<WorkflowExecutionState, "leaseOwner" | "leaseExpiresAt">
+  ): Promise<boolean> {
+    const state = this.executionStates.get(sessionId);
+    if (
+      !state ||
+      state.leaseOwner !== expected.leaseOwner ||
+      state.leaseExpiresAt?.getTime() !== expected.leaseExpiresAt?.getTime()
+    ) {
+      return false;
+    }
+    this.executionStates.set(sessionId, { ...state, ...lease });
+    return true;
+  }
+
+  async getExecutionState(
+    sessionId: string
+  ): Promise<WorkflowExecutionState | null> {
+    const state = this.executionStates.get(sessionId);
+    if (!state) return null;
+    return {
+      ...state,
+      nodeStates: Object.fromEntries(this.nodeStates.get(sessionId) ?? []),
+    };
+  }
+
+  async updateNodeState(
+    sessionId: string,
+    nodeId: string,
+    state: NodeExecutionState
+  ): Promise<void> {
+    if (!this.nodeStates.has(sessionId)) {
+      this.nodeStates.set(sessionId, new Map());
+    }
+    this.nodeStates.get(sessionId)!.set(nodeId, state);
+  }
+
+  // ==================== LLM Execution Operations ====================
+
+  async saveLLMExecution(
+    sessionId: string,
+    nodeId: string,
+    result: LLMExecutionResult & { id: string; timestamp: Date }
+  ): Promise<void> {
+    this.llmExecutions.push({ ...result, sessionId, nodeId });
+  }
+
+  async getLLMExecutions(
+    sessionId: string,
+    filter?: QueryFilter<LLMExecutionResult & { id: string; timestamp: Date }>
+  ): Promise<(LLMExecutionResult & { id: string; timestamp: Date })[]> {
+    return applyFilter(
+      this.llmExecutions.filter((e) => e.sessionId === sessionId),
+      filter as QueryFilter<StoredLLMExecution>
+    );
+  }
+
+  async getNodeLLMExecutions(
+    sessionId: string,
+    nodeId: string
+  ): Promise<(LLMExecutionResult & { id: string; timestamp: Date })[]> {
+    return this.llmExecutions.filter(
+      (e) => e.sessionId === sessionId && e.nodeId === nodeId
+    );
+  }
+
+  // ==================== Budget Pool Operations ====================
+
+  async createBudgetPool(pool: BudgetPool): Promise<void> {
+    this.budgetPools.set(pool.id, pool);
+  }
+
+  async getBudgetPool(id: string): Promise<BudgetPool | null> {
+    const pool = this.budgetPools.get(id);
+    return pool ? { ...pool } : null;
+  }
+
+  async updateBudgetPool(id: string, pool: Partial<BudgetPool>): Promise<void> {
+    const existing = this.budgetPools.get(id);
+    if (!existing) throw new Error(`Budget pool ${id} not found`);
+    this.budgetPools.set(id, { ...existing, ...pool });
+  }
+
+  async getChildBudgetPools(parentId: string): Promise<BudgetPool[]> {
+    return [...this.budgetPools.values()].filter(
+      (p) => p.parentPoolId === parentId
+    );
+  }
+
+  async consumeBudgetAtomic(
+    poolId: string,
+    consumption: BudgetConsumption
+  ): Promise<void> {
+    const { amount, reserve = 0, enforceLimit = false } = consumption;
+
+    // No awaits from here on, so the change can't interleave with others
+    const pools: BudgetPool[] = [];
+    for (let id: string | undefined = poolId; id; ) {
+      const pool = this.budgetPools.get(id);
+      if (!pool) throw new Error(`Budget pool ${id} not found`);
+      pools.push(pool);
+      id = pool.parentPoolId;
+    }
+
+    if (enforceLimit) {
+      const required = amount + Math.max(reserve, 0);
+      for (const pool of pools) {
+        if (pool.status !== "active") {
+          throw new Error(`Budget pool ${pool.id} is not active`);
+        }
+        if (pool.remainingBudget - (pool.reservedBudget ?? 0) < required) {
+          throw new Error(`Insufficient budget in pool ${pool.id}`);
+        }
+        for (const { windowMs, limit } of pool.rateLimits || []) {
+          const since = Date.now() - windowMs;
+          const spent = this.budgetUsage
+            .filter((r) => r.poolId === pool.id && r.timestamp.getTime() > since)
+            .reduce((sum, r) => sum + r.amount, 0);
+          if (spent + (pool.reservedBudget ?? 0) + required > limit) {
+            throw new Error(
+              `Budget pool ${pool.id} exceeded its rate limit of ${limit} per ${windowMs}ms`
+            );
+          }
+        }
+      }
+    }
+
+    for (const pool of pools) {
+      const remainingBudget = pool.remainingBudget - amount;
+      this.budgetPools.set(pool.id, {
+        ...pool,
+        usedBudget: pool.usedBudget + amount,
+        remainingBudget,
+        reservedBudget: Math.max(0, (pool.reservedBudget ?? 0) + reserve),
+        status:
+          pool.status === "active" && remainingBudget <= 0
+            ? "exhausted"
+            : pool.status,
+      });
+      if (amount !== 0) {
+        this.budgetUsage.push({ poolId: pool.id, amount, timestamp: new Date() });
+      }
+    }
+  }
+
+  async increaseBudgetPool(poolId: string, amount: number): Promise<void> {
+    const pool = this.budgetPools.get(poolId);
+    if (!pool) throw new Error(`Budget pool ${poolId} not found`);
+
+    const remainingBudget = pool.remainingBudget + amount;
+    this.budgetPools.set(poolId, {
+      ...pool,
+      totalBudget: pool.totalBudget + amount,
+      remainingBudget,
+      status: remainingBudget > 0 ? "active" : pool.status,
+    });
+  }
+
+  async reactivateBudgetPool(poolId: string): Promise<void> {
+    const pool = this.budgetPools.get(poolId);
+    if (!pool) throw new Error(`Budget pool ${poolId} not found`);
+    if (pool.remainingBudget > 0) {
+      this.budgetPools.set(poolId, { ...pool, status: "active" });
+    }
+  }
+
+  async resetBudgetPeriod(poolId: string, periodStartedAt: Date): Promise<void> {
+    const pool = this.budgetPools.get(poolId);
+    if (!pool) throw new Error(`Budget pool ${poolId} not found`);
+    if (pool.periodStartedAt && pool.periodStartedAt >= periodStartedAt) {
+      return;
+    }
+
+    this.budgetPools.set(poolId, {
+      ...pool,
+      usedBudget: 0,
+      remainingBudget: pool.totalBudget,
+      status: pool.status === "exhausted" ? "active" : pool.status,
+      periodStartedAt,
+    });
+  }
+
+  async listBudgetUsage(
+    poolId: string,
+    range?: { from?: Date; to?: Date }
+  ): Promise<BudgetUsageRecord[]> {
+    return this.budgetUsage.filter(
+      (r) =>
+        r.poolId === poolId &&
+        (!range?.from || r.timestamp >= range.from) &&
+        (!range?.to || r.timestamp < range.to)
+    );
+  }
+
+  // ==================== Tool Call Operations ====================
+
+  async logToolCall(log: ToolCallLog): Promise<void> {
+    this.toolCalls.push(log);
+  }
+
+  async getToolCalls(executionId: string): Promise<ToolCallLog[]> {
+    return this.toolCalls.filter((l) => l.executionId === executionId);
+  }
+
+  async getSessionToolCalls(
+    sessionId: string,
+    filter?: QueryFilter<ToolCallLog>
+  ): Promise<ToolCallLog[]> {
+    const executionIds = new Set(
+      this.llmExecutions
+        .filter((e) => e.sessionId === sessionId)
+        .map((e) => e.id)
+    );
+    return applyFilter(
+      this.toolCalls.filter((l) => executionIds.has(l.executionId)),
+      filter
+    );
+  }
+
+  // ==================== Approval Operations ====================
+
+  async createApprovalRequest(request: ApprovalRequest): Promise<void> {
+    this.approvals.set(request.id, request);
+  }
+
+  async getApprovalRequest(id: string): Promise<ApprovalRequest | null> {
+    return this.approvals.get(id) ?? null;
+  }
+
+  async listApprovalRequests(
+    sessionId: string,
+    filter?: QueryFilter<ApprovalRequest>
+  ): Promise<ApprovalRequest[]> {
+    return applyFilter(
+      [...this.approvals.values()].filter((r) => r.sessionId === sessionId),
+      filter
+    );
+  }
+
+  async listPendingApprovals(
+    filter?: QueryFilter<ApprovalRequest>
+  ): Promise<ApprovalRequest[]> {
+    return applyFilter(
+      [...this.approvals.values()].filter((r) => r.status === "pending"),
+      filter
+    );
+  }
+
+  async updateApprovalRequest(
+    id: string,
+    update: Partial<ApprovalRequest>
+  ): Promise<void> {
+    const existing = this.approvals.get(id);
+    if (!existing) throw new Error(`Approval request ${id} not found`);
+    this.approvals.set(id, { ...existing, ...update });
+  }
+
+  async approveRequest(
+    id: string,
+    approvedBy: string,
+    notes?: string
+  ): Promise<boolean> {
+    const existing = this.approvals.get(id);
+    if (!existing) throw new Error(`Approval request ${id} not found`);
+    if (existing.status !== "pending") {
+      return false;
+    }
+
+    this.approvals.set(id, {
+      ...existing,
+      status: "approved",
+      resolvedAt: new Date(),
+      resolvedBy: approvedBy,
+      resolutionNotes: notes,
+    });
+    return true;
+  }
+
+  async rejectRequest(
+    id: string,
+    rejectedBy: string,
+    reason?: string
+  ): Promise<void> {
+    await this.updateApprovalRequest(id, {
+      status: "rejected",
+      resolvedAt: new Date(),
+      resolvedBy: rejectedBy,
+      resolutionNotes: reason,
+    });
+  }
+
+  // ==================== Incident Operations ====================
+
+  async logIncident(incident: Incident): Promise<void> {
+    this.incidents.push(incident);
+  }
+
+  async listIncidents(filter?: QueryFilter<Incident>): Promise<Incident[]> {
+    return applyFilter(this.incidents, filter);
+  }
+
+  // ==================== Stream Operations ====================
+
+  async saveStreamEvent(event: StreamEvent): Promise<void> {
+    const index = this.streamEvents.findIndex((e) => e.id === event.id);
+    if (index === -1) {
+      this.streamEvents.push(event);
+    } else {
+      this.streamEvents[index] = event;
+    }
+  }
+
+  async getStreamEvents(
+    streamId: string,
+    filter?: QueryFilter<StreamEvent>
+  ): Promise<StreamEvent[]> {
+    return applyFilter(
+      this.streamEvents.filter((e) => e.streamId === streamId),
+      filter
+    );
+  }
+}
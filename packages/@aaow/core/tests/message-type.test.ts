@@ -0,0 +1,201 @@
+import { describe, it, expect } from "vitest";
+import type { WorkflowNodeMessageType } from "@aaow/types";
+import {
+  compileMessageType,
+  compileMessageTypeToJsonSchema,
+  resolveMessageType,
+} from "../src/message-type";
+import { stringType } from "./helpers/fixtures";
+
+const articleType: WorkflowNodeMessageType = {
+  type: "object",
+  value: {
+    title: { description: "Article title", type: stringType },
+    status: {
+      description: "Publication status",
+      type: { type: "enum", value: ["draft", "published"] },
+    },
+    tags: {
+      description: "Topics",
+      type: { type: "optional", of: { type: "array", of: stringType } },
+    },
+  },
+};
+
+const resultType: WorkflowNodeMessageType = {
+  type: "taggedUnion",
+  value: {
+    ok: {
+      description: "Success",
+      type: {
+        type: "object",
+        value: { data: { description: "Payload", type: stringType } },
+      },
+    },
+    error: { description: "Failure", type: stringType },
+  },
+};
+
+// A tree whose children are trees
+const typedefs: Record<string, WorkflowNodeMessageType> = {
+  Tree: {
+    type: "object",
+    value: {
+      label: { description: "Node label", type: stringType },
+      children: {
+        description: "Child nodes",
+        type: { type: "array", of: { type: "ref", ref: "Tree" } },
+      },
+    },
+  },
+};
+
+describe("Message Type Compiler", () => {
+  describe("compileMessageType", () => {
+    it("should validate objects with enums and optional fields", () => {
+      const schema = compileMessageType(articleType);
+
+      expect(schema.safeParse({ title: "A", status: "draft" }).success).toBe(
+        true
+      );
+      expect(
+        schema.safeParse({ title: "A", status: "draft", tags: ["x"] }).success
+      ).toBe(true);
+      expect(schema.safeParse({ title: "A", status: "archived" }).success).toBe(
+        false
+      );
+      expect(schema.safeParse({ status: "draft" }).success).toBe(false);
+    });
+
+    it("should carry field descriptions", () => {
+      const schema = compileMessageType(articleType) as any;
+
+      expect(schema.shape.title.description).toBe("Article title");
+      expect(schema.shape.tags.description).toBe("Topics");
+    });
+
+    it("should validate tagged unions", () => {
+      const schema = compileMessageType(resultType);
+
+      expect(schema.safeParse({ tag: "ok", data: "x" }).success).toBe(true);
+      expect(schema.safeParse({ tag: "error", value: "boom" }).success).toBe(
+        true
+      );
+      expect(schema.safeParse({ tag: "error", data: "x" }).success).toBe(false);
+      expect(schema.safeParse({ tag: "other" }).success).toBe(false);
+    });
+
+    it("should resolve recursive refs", () => {
+      const schema = compileMessageType({ type: "ref", ref: "Tree" }, typedefs);
+
+      expect(
+        schema.safeParse({
+          label: "root",
+          children: [{ label: "leaf", children: [] }],
+        }).success
+      ).toBe(true);
+      expect(
+        schema.safeParse({ label: "root", children: [{ label: 1 }] }).success
+      ).toBe(false);
+    });
+
+    it("should reject unknown refs", () => {
+      expect(() => compileMessageType({ type: "ref", ref: "Missing" })).toThrow(
+        "Unknown type reference: Missing"
+      );
+    });
+  });
+
+  describe("compileMessageTypeToJsonSchema", () => {
+    it("should compile objects with descriptions and required fields", () => {
+      expect(compileMessageTypeToJsonSchema(articleType)).toEqual({
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Article title" },
+          status: {
+            type: "string",
+            enum: ["draft", "published"],
+            description: "Publication status",
+          },
+          tags: {
+            type: "array",
+            items: { type: "string" },
+            description: "Topics",
+          },
+        },
+        required: ["title", "status"],
+        additionalProperties: false,
+      });
+    });
+
+    it("should compile tagged unions", () => {
+      expect(compileMessageTypeToJsonSchema(resultType)).toEqual({
+        anyOf: [
+          {
+            type: "object",
+            properties: {
+              tag: { type: "string", const: "ok" },
+              data: { type: "string", description: "Payload" },
+            },
+            required: ["tag", "data"],
+            additionalProperties: false,
+            description: "Success",
+          },
+          {
+            type: "object",
+            properties: {
+              tag: { type: "string", const: "error" },
+              value: { type: "string", description: "Failure" },
+            },
+            required: ["tag", "value"],
+            additionalProperties: false,
+            description: "Failure",
+          },
+        ],
+      });
+    });
+
+    it("should emit recursive refs under $defs", () => {
+      expect(
+        compileMessageTypeToJsonSchema({ type: "ref", ref: "Tree" }, typedefs)
+      ).toEqual({
+        $ref: "#/$defs/Tree",
+        $defs: {
+          Tree: {
+            type: "object",
+            properties: {
+              label: { type: "string", description: "Node label" },
+              children: {
+                type: "array",
+                items: { $ref: "#/$defs/Tree" },
+                description: "Child nodes",
+              },
+            },
+            required: ["label", "children"],
+            additionalProperties: false,
+          },
+        },
+      });
+    });
+  });
+
+  describe("resolveMessageType", () => {
+    it("should follow ref chains", () => {
+      expect(
+        resolveMessageType(
+          { type: "ref", ref: "Alias" },
+          { Alias: { type: "ref", ref: "Name" }, Name: stringType }
+        )
+      ).toEqual(stringType);
+    });
+
+    it("should reject circular aliases", () => {
+      expect(() =>
+        resolveMessageType(
+          { type: "ref", ref: "A" },
+          { A: { type: "ref", ref: "B" }, B: { type: "ref", ref: "A" } }
+        )
+      ).toThrow("Circular type reference: A");
+    });
+  });
+});
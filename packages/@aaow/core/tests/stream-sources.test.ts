@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { StreamSourceFactory } from "@aaow/types";
+import {
+  fileLinesSource,
+  serverSentEventsSource,
+} from "../src/stream-sources";
+
+function subscribe(factory: StreamSourceFactory, signal: AbortSignal) {
+  return factory({
+    sessionId: "session-1",
+    nodeId: "root.watch",
+    input: undefined,
+    signal,
+  });
+}
+
+describe("Built-in stream sources", () => {
+  let directory: string;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "aaow-stream-"));
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should read the lines of a file", async () => {
+    const path = join(directory, "app.log");
+    await writeFile(path, "first\r\nsecond\nthird");
+
+    const lines: unknown[] = [];
+    for await (const line of subscribe(
+      fileLinesSource(path),
+      controller.signal
+    )) {
+      lines.push(line);
+    }
+
+    expect(lines).toEqual(["first", "second", "third"]);
+  });
+
+  it("should follow lines appended to a file until stopped", async () => {
+    const path = join(directory, "app.log");
+    await writeFile(path, "first\nsec");
+    const iterator = subscribe(
+      fileLinesSource(path, { follow: true, pollIntervalMs: 5 }),
+      controller.signal
+    )[Symbol.asyncIterator]();
+
+    expect(await iterator.next()).toEqual({ value: "first", done: false });
+
+    const next = iterator.next();
+    await appendFile(path, "ond\n");
+    expect(await next).toEqual({ value: "second", done: false });
+
+    const pending = iterator.next();
+    controller.abort();
+    expect(await pending).toEqual({ value: undefined, done: true });
+  });
+
+  it("should parse server-sent events across chunks", async () => {
+    const chunks = [
+      "event: price\ndata: {\"a\"",
+      ":1}\n\n: keep-alive\n",
+      "data: line 1\r\ndata: line 2\r\nid: 7\r\n\r",
+      "\n",
+    ];
+    const requests: RequestInit[] = [];
+    const fakeFetch = (async (_url: string, init: RequestInit) => {
+      requests.push(init);
+      const encoder = new TextEncoder();
+      return new Response(
+        new ReadableStream({
+          start(stream) {
+            chunks.forEach((chunk) => stream.enqueue(encoder.encode(chunk)));
+            stream.close();
+          },
+        })
+      );
+    }) as typeof fetch;
+
+    const events: unknown[] = [];
+    const source = serverSentEventsSource("https://example.com/events", {
+      fetch: fakeFetch,
+      headers: { Authorization: "Bearer token" },
+    });
+    for await (const event of subscribe(source, controller.signal)) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: "price", data: '{"a":1}', id: undefined },
+      { event: "message", data: "line 1\nline 2", id: "7" },
+    ]);
+    expect(requests[0].headers).toEqual({
+      Accept: "text/event-stream",
+      Authorization: "Bearer token",
+    });
+  });
+
+  it("should fail when the endpoint responds with an error", async () => {
+    const fakeFetch = (async () =>
+      new Response("Not found", { status: 404 })) as typeof fetch;
+    const iterator = subscribe(
+      serverSentEventsSource("https://example.com/events", {
+        fetch: fakeFetch,
+      }),
+      controller.signal
+    )[Symbol.asyncIterator]();
+
+    await expect(iterator.next()).rejects.toThrow(
+      "Server-sent events endpoint https://example.com/events responded with 404"
+    );
+  });
+});
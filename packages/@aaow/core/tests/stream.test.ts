@@ -0,0 +1,460 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Workflow, WorkflowNode } from "@aaow/types";
+import { WorkflowEngine } from "../src/engine";
+import { FakeClock } from "../src/clock";
+import {
+  StreamHub,
+  applyOperators,
+  drainStream,
+  type StreamOperatorContext,
+} from "../src/executors/stream";
+import {
+  createScriptedModel,
+  createWorkflow,
+  llm,
+  stringType,
+  transform,
+} from "./helpers/fixtures";
+import { MemoryStorageAdapter } from "./helpers/memory-storage";
+
+const stringsType = { type: "array" as const, of: stringType };
+
+/**
+ * Advance the clock until the promise settles
+ */
+async function runWithClock<T>(
+  clock: FakeClock,
+  promise: Promise<T>,
+  stepMs = 100
+): Promise<T> {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true)
+  );
+  for (let step = 0; step < 100 && !settled; step++) {
+    await clock.advance(stepMs);
+  }
+  return promise;
+}
+
+function stream(extra: Partial<WorkflowNode>): WorkflowNode {
+  return {
+    type: "stream",
+    inputType: stringType,
+    outputType: stringsType,
+    ...extra,
+  } as WorkflowNode;
+}
+
+describe("Stream operators", () => {
+  let hub: StreamHub;
+  let clock: FakeClock;
+  let context: StreamOperatorContext;
+
+  beforeEach(() => {
+    hub = new StreamHub();
+    clock = new FakeClock();
+    context = { clock, resolve: (nodeId) => hub.observe(nodeId) };
+  });
+
+  it("should transform, filter and fold published values", async () => {
+    const items: unknown[] = [];
+    const done = drainStream(
+      applyOperators(
+        hub.observe("source"),
+        [
+          { type: "filter", fn: { type: "get", path: ["keep"] } },
+          { type: "map", fn: { type: "get", path: ["n"] } },
+          { type: "distinct" },
+          { type: "skip", count: 1 },
+          { type: "take", count: 2 },
+          {
+            type: "scan",
+            fn: {
+              type: "object",
+              value: {
+                value: { type: "get", path: ["value"] },
+                previous: { type: "get", path: ["accumulator", "value"] },
+              },
+            },
+          },
+        ],
+        context
+      ),
+      async (item) => {
+        items.push(item);
+      }
+    );
+
+    for (const [n, keep] of [
+      [1, true],
+      [1, true],
+      [2, false],
+      [3, true],
+      [4, true],
+      [5, true],
+    ]) {
+      hub.publish("source", { n, keep });
+    }
+
+    // `take` completes the stream before its source settles
+    await done;
+    expect(items).toEqual([
+      { value: 3, previous: undefined },
+      { value: 4, previous: 3 },
+    ]);
+  });
+
+  it("should debounce values on the clock", async () => {
+    const items: unknown[] = [];
+    const done = drainStream(
+      applyOperators(
+        hub.observe("source"),
+        [{ type: "debounce", ms: 100 }],
+        context
+      ),
+      async (item) => {
+        items.push(item);
+      }
+    );
+
+    hub.publish("source", 1);
+    await clock.advance(50);
+    hub.publish("source", 2);
+    await clock.advance(99);
+    expect(items).toEqual([]);
+
+    await clock.advance(1);
+    expect(items).toEqual([2]);
+
+    // The last value is flushed when the source completes
+    hub.publish("source", 3);
+    await clock.advance(30);
+    hub.settle("source");
+    await done;
+    expect(items).toEqual([2, 3]);
+  });
+
+  it("should throttle values on the clock", async () => {
+    const items: unknown[] = [];
+    const done = drainStream(
+      applyOperators(
+        hub.observe("source"),
+        [{ type: "throttle", ms: 100 }],
+        context
+      ),
+      async (item) => {
+        items.push(item);
+      }
+    );
+
+    hub.publish("source", "a");
+    await clock.advance(50);
+    hub.publish("source", "b");
+    await clock.advance(60);
+    hub.publish("source", "c");
+    await clock.advance(10);
+    hub.publish("source", "d");
+    await clock.advance(100);
+    hub.publish("source", "e");
+    hub.settle("source");
+
+    await done;
+    expect(items).toEqual(["a", "c", "e"]);
+  });
+
+  it("should fail open streams when the hub closes", async () => {
+    const done = drainStream(hub.observe("source"), async () => {});
+
+    hub.close(new Error("Session session-1 ended"));
+
+    await expect(done).rejects.toThrow("Session session-1 ended");
+    await expect(
+      drainStream(hub.observe("other"), async () => {})
+    ).rejects.toThrow("Session session-1 ended");
+  });
+});
+
+describe("Stream nodes", () => {
+  let storage: MemoryStorageAdapter;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    clock = new FakeClock(Date.parse("2026-05-01T00:00:00Z"));
+  });
+
+  it("should stream the outputs of a looping group and save them", async () => {
+    const engine = new WorkflowEngine({
+      storage,
+      clock,
+      model: createScriptedModel(["a", "b", "b", "c"], { clock }).model,
+    });
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: stringsType,
+        nodes: {
+          inner: {
+            type: "group",
+            label: "Inner",
+            inputType: stringType,
+            outputType: stringType,
+            nodes: { step: llm() },
+            edges: [
+              { from: "entry", to: "step", description: "" },
+              { from: "step", to: "exit", description: "" },
+            ],
+            entryPoint: "entry",
+            exitPoint: "exit",
+            loop: {
+              condition: { type: "const", value: true },
+              maxIterations: 4,
+            },
+          },
+          changes: stream({
+            source: { type: "node", nodeId: "inner.step" },
+            operators: [
+              { type: "distinctUntilChanged" },
+              {
+                type: "map",
+                fn: { type: "object", value: { letter: { type: "get" } } },
+              },
+            ],
+          }),
+        },
+        edges: [
+          { from: "entry", to: "inner", description: "" },
+          { from: "entry", to: "changes", description: "" },
+          { from: "changes", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    const result = await runWithClock(
+      clock,
+      engine.executeWorkflow(workflow, "wf", "go")
+    );
+
+    expect(result.output).toEqual([
+      { letter: "a" },
+      { letter: "b" },
+      { letter: "c" },
+    ]);
+    expect(storage.streamEvents).toEqual([
+      expect.objectContaining({
+        streamId: `${result.sessionId}:root.changes`,
+        nodeId: "root.changes",
+        data: { letter: "a" },
+        timestamp: new Date("2026-05-01T00:00:00.100Z"),
+      }),
+      expect.objectContaining({
+        data: { letter: "b" },
+        timestamp: new Date("2026-05-01T00:00:00.200Z"),
+      }),
+      expect.objectContaining({
+        data: { letter: "c" },
+        timestamp: new Date("2026-05-01T00:00:00.400Z"),
+      }),
+    ]);
+  });
+
+  it("should merge nodes that completed before the stream started", async () => {
+    const engine = new WorkflowEngine({ storage, clock });
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: stringsType,
+        nodes: {
+          first: transform({ type: "const", value: "x" }),
+          second: transform({ type: "const", value: "y" }),
+          both: stream({
+            inputType: { type: "object", value: {} },
+            source: { type: "merge", nodeIds: ["first", "second"] },
+          }),
+        },
+        edges: [
+          { from: "entry", to: "first", description: "" },
+          { from: "entry", to: "second", description: "" },
+          {
+            from: "first",
+            to: "both",
+            messageInputFieldName: "first",
+            description: "",
+          },
+          {
+            from: "second",
+            to: "both",
+            messageInputFieldName: "second",
+            description: "",
+          },
+          { from: "both", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    const result = await engine.executeWorkflow(workflow, "wf", "go");
+
+    expect([...(result.output as string[])].sort()).toEqual(["x", "y"]);
+    expect(
+      await storage.getStreamEvents(`${result.sessionId}:root.both`)
+    ).toHaveLength(2);
+  });
+
+  it("should fail when its source fails", async () => {
+    const engine = new WorkflowEngine({
+      storage,
+      clock,
+      model: createScriptedModel([], { clock }).model,
+    });
+    const workflow: Workflow = {
+      root: {
+        type: "group",
+        label: "Main",
+        inputType: stringType,
+        outputType: stringsType,
+        nodes: {
+          write: llm(),
+          watch: stream({ source: { type: "node", nodeId: "write" } }),
+        },
+        edges: [
+          { from: "entry", to: "write", description: "" },
+          { from: "entry", to: "watch", description: "" },
+          { from: "watch", to: "exit", description: "" },
+        ],
+        entryPoint: "entry",
+        exitPoint: "exit",
+      },
+    };
+
+    await expect(
+      runWithClock(clock, engine.executeWorkflow(workflow, "wf", "go"))
+    ).rejects.toThrow("Out of replies");
+
+    const [session] = storage.sessions.values();
+    const state = await storage.getExecutionState(session.id);
+    expect(state?.nodeStates["root.watch"]).toMatchObject({
+      status: "failed",
+      error: "Out of replies",
+    });
+  });
+});
+
+describe("External stream sources", () => {
+  let storage: MemoryStorageAdapter;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    clock = new FakeClock();
+  });
+
+  /**
+   * Workflow starting every node, with the output of its `watch` node
+   */
+  function createWatchWorkflow(nodes: Record<string, WorkflowNode>): Workflow {
+    return createWorkflow(
+      nodes,
+      [
+        ...Object.keys(nodes).map((nodeId) => ({
+          from: "entry",
+          to: nodeId,
+          description: "",
+        })),
+        { from: "watch", to: "exit", description: "" },
+      ],
+      { outputType: stringsType }
+    );
+  }
+
+  it("should pull registered sources as the stream consumes them", async () => {
+    const pulled: number[] = [];
+    let stopped = false;
+    const engine = new WorkflowEngine({
+      storage,
+      clock,
+      streamSources: {
+        counter: async function* ({ input }) {
+          try {
+            for (let n = 0; ; n++) {
+              pulled.push(n);
+              yield `${input}:${n}`;
+            }
+          } finally {
+            stopped = true;
+          }
+        },
+      },
+    });
+
+    const result = await engine.executeWorkflow(
+      createWatchWorkflow({
+        watch: stream({
+          source: { type: "external", sourceFn: "counter" },
+          operators: [{ type: "take", count: 3 }],
+        }),
+      }),
+      "wf",
+      "tick"
+    );
+
+    expect(result.output).toEqual(["tick:0", "tick:1", "tick:2"]);
+    expect(pulled).toEqual([0, 1, 2]);
+    expect(stopped).toBe(true);
+  });
+
+  it("should stop endless sources when the group fails", async () => {
+    let signal: AbortSignal | undefined;
+    const engine = new WorkflowEngine({
+      storage,
+      clock,
+      model: createScriptedModel([], { clock }).model,
+      streamSources: {
+        idle: async function* (context) {
+          signal = context.signal as AbortSignal;
+          await new Promise((resolve) =>
+            context.signal.addEventListener("abort", () => resolve(undefined))
+          );
+        },
+      },
+    });
+
+    await expect(
+      runWithClock(
+        clock,
+        engine.executeWorkflow(
+          createWatchWorkflow({
+            write: llm(),
+            watch: stream({ source: { type: "external", sourceFn: "idle" } }),
+          }),
+          "wf",
+          "go"
+        )
+      )
+    ).rejects.toThrow("Out of replies");
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("should fail on unknown sources", async () => {
+    const engine = new WorkflowEngine({ storage, clock });
+
+    await expect(
+      engine.executeWorkflow(
+        createWatchWorkflow({
+          watch: stream({ source: { type: "external", sourceFn: "missing" } }),
+        }),
+        "wf",
+        "go"
+      )
+    ).rejects.toThrow("Stream source missing not found");
+  });
+});
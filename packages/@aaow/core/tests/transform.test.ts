@@ -91,4 +91,31 @@ describe("Transform Executor", () => {
       name: "David",
     });
   });
+
+  it("should execute context transform", async () => {
+    const contextData = { api: { baseUrl: "https://example.com" } };
+    const result = await executeTransform(
+      {
+        type: "map",
+        path: ["paths"],
+        fn: {
+          type: "object",
+          value: {
+            base: { type: "context", key: "api", path: ["baseUrl"] },
+            path: { type: "get", path: ["item"] },
+          },
+        },
+      },
+      { paths: ["/a"] },
+      [],
+      contextData
+    );
+    expect(result).toEqual([{ base: "https://example.com", path: "/a" }]);
+
+    await expect(
+      executeTransform({ type: "context", key: "token" }, {}, [], contextData)
+    ).rejects.toThrow(
+      "Context key token isn't a data item of an enclosing group"
+    );
+  });
 });
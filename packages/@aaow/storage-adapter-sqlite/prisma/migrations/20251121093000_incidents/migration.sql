@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "incidents" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sessionId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "incidents_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "incidents_sessionId_idx" ON "incidents"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "incidents_severity_idx" ON "incidents"("severity");
+
+-- CreateIndex
+CREATE INDEX "incidents_timestamp_idx" ON "incidents"("timestamp");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "llm_executions" ADD COLUMN "usage_cachedPromptTokens" INTEGER;
+
+-- AlterTable
+ALTER TABLE "llm_executions" ADD COLUMN "cost" REAL;
+
+-- AlterTable
+ALTER TABLE "budget_pools" ADD COLUMN "unit" TEXT NOT NULL DEFAULT 'tokens';
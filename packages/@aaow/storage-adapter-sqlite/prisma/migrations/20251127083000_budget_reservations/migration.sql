@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "budget_pools" ADD COLUMN "reservedBudget" REAL NOT NULL DEFAULT 0;
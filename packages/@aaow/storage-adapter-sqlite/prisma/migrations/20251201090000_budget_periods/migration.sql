@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "budget_pools" ADD COLUMN "period" TEXT;
+ALTER TABLE "budget_pools" ADD COLUMN "periodStartedAt" DATETIME;
+ALTER TABLE "budget_pools" ADD COLUMN "rateLimits" TEXT;
+
+-- CreateTable
+CREATE TABLE "budget_usage" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "poolId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "budget_usage_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "budget_pools" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "budget_usage_poolId_timestamp_idx" ON "budget_usage"("poolId", "timestamp");
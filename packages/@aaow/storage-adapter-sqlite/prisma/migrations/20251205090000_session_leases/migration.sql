@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "execution_states" ADD COLUMN "leaseOwner" TEXT;
+ALTER TABLE "execution_states" ADD COLUMN "heartbeatAt" DATETIME;
+ALTER TABLE "execution_states" ADD COLUMN "leaseExpiresAt" DATETIME;
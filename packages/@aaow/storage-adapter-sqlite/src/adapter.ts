@@ -1,20 +1,45 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import type {
   StorageAdapter,
   Transaction,
   StoredWorkflow,
   Session,
   WorkflowExecutionState,
+  SessionLease,
   NodeExecutionState,
   LLMExecutionResult,
   BudgetPool,
+  BudgetConsumption,
+  BudgetRateLimit,
+  BudgetUsageRecord,
   ToolCallLog,
   ApprovalRequest,
+  Incident,
   StreamEvent,
   QueryFilter,
 } from "@aaow/types";
 import type { Workflow } from "@aaow/types";
 
+/**
+ * Common table expression `pool_chain` listing a budget pool and its
+ * ancestors
+ */
+function poolChainSql(poolId: string): Prisma.Sql {
+  return Prisma.sql`
+    WITH RECURSIVE pool_chain(id, parentPoolId) AS (
+      SELECT id, parentPoolId FROM budget_pools WHERE id = ${poolId}
+      UNION ALL
+      SELECT p.id, p.parentPoolId FROM budget_pools p
+      JOIN pool_chain c ON p.id = c.parentPoolId
+    )`;
+}
+
+/**
+ * Thrown inside a transaction to roll back a budget consumption that some
+ * pool of the chain can't afford
+ */
+class BudgetLimitExceeded extends Error {}
+
 /**
  * SQLite storage adapter using Prisma
  */
@@ -247,12 +272,16 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         status: state.status,
         startedAt: state.startedAt,
         completedAt: state.completedAt,
+        leaseOwner: state.leaseOwner,
+        heartbeatAt: state.heartbeatAt,
+        leaseExpiresAt: state.leaseExpiresAt,
         metadata: JSON.stringify({
           budgetPoolId: state.budgetPoolId,
           startedAt: state.startedAt,
           metadata: state.metadata,
         }),
       },
+      // The lease only changes through claimSessionLease
       update: {
         currentNodeId: state.currentNodeId,
         status: state.status,
@@ -271,6 +300,22 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     }
   }
 
+  async claimSessionLease(
+    sessionId: string,
+    lease: SessionLease,
+    expected: Pick<WorkflowExecutionState, "leaseOwner" | "leaseExpiresAt">
+  ): Promise<boolean> {
+    const { count } = await this.prisma.executionState.updateMany({
+      where: {
+        sessionId,
+        leaseOwner: expected.leaseOwner ?? null,
+        leaseExpiresAt: expected.leaseExpiresAt ?? null,
+      },
+      data: lease,
+    });
+    return count === 1;
+  }
+
   async getExecutionState(
     sessionId: string
   ): Promise<WorkflowExecutionState | null> {
@@ -314,6 +359,9 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       status: execState.status as any,
       nodeStates: nodeStatesMap,
       metadata: metadata.metadata,
+      leaseOwner: execState.leaseOwner || undefined,
+      heartbeatAt: execState.heartbeatAt || undefined,
+      leaseExpiresAt: execState.leaseExpiresAt || undefined,
     };
   }
 
@@ -333,8 +381,8 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         sessionId,
         nodeId,
         status: state.status,
-        input: state.input ? JSON.stringify(state.input) : null,
-        output: state.output ? JSON.stringify(state.output) : null,
+        input: state.input !== undefined ? JSON.stringify(state.input) : null,
+        output: state.output !== undefined ? JSON.stringify(state.output) : null,
         error: state.error,
         startedAt: state.startedAt,
         completedAt: state.completedAt,
@@ -344,8 +392,8 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       },
       update: {
         status: state.status,
-        input: state.input ? JSON.stringify(state.input) : null,
-        output: state.output ? JSON.stringify(state.output) : null,
+        input: state.input !== undefined ? JSON.stringify(state.input) : null,
+        output: state.output !== undefined ? JSON.stringify(state.output) : null,
         error: state.error,
         startedAt: state.startedAt,
         completedAt: state.completedAt,
@@ -377,6 +425,8 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         usage_promptTokens: result.usage?.promptTokens,
         usage_completionTokens: result.usage?.completionTokens,
         usage_totalTokens: result.usage?.totalTokens,
+        usage_cachedPromptTokens: result.usage?.cachedPromptTokens,
+        cost: result.cost,
         error: result.error,
         metadata: result.metadata ? JSON.stringify(result.metadata) : null,
       },
@@ -409,7 +459,9 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         promptTokens: e.usage_promptTokens || 0,
         completionTokens: e.usage_completionTokens || 0,
         totalTokens: e.usage_totalTokens || 0,
+        cachedPromptTokens: e.usage_cachedPromptTokens ?? undefined,
       },
+      cost: e.cost ?? undefined,
       error: e.error || undefined,
       metadata: e.metadata ? JSON.parse(e.metadata) : undefined,
     }));
@@ -434,7 +486,9 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         promptTokens: e.usage_promptTokens || 0,
         completionTokens: e.usage_completionTokens || 0,
         totalTokens: e.usage_totalTokens || 0,
+        cachedPromptTokens: e.usage_cachedPromptTokens ?? undefined,
       },
+      cost: e.cost ?? undefined,
       error: e.error || undefined,
       metadata: e.metadata ? JSON.parse(e.metadata) : undefined,
     }));
@@ -447,12 +501,17 @@ export class SQLiteStorageAdapter implements StorageAdapter {
       data: {
         id: pool.id,
         parentPoolId: pool.parentPoolId,
+        unit: pool.unit || "tokens",
         totalBudget: pool.totalBudget,
         usedBudget: pool.usedBudget,
         remainingBudget: pool.remainingBudget,
+        reservedBudget: pool.reservedBudget ?? 0,
         status: pool.status,
         createdAt: pool.createdAt,
         metadata: pool.metadata ? JSON.stringify(pool.metadata) : null,
+        period: pool.period,
+        periodStartedAt: pool.periodStartedAt,
+        rateLimits: pool.rateLimits ? JSON.stringify(pool.rateLimits) : null,
       },
     });
   }
@@ -467,12 +526,17 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     return {
       id: pool.id,
       parentPoolId: pool.parentPoolId || undefined,
+      unit: pool.unit as any,
       totalBudget: pool.totalBudget,
       usedBudget: pool.usedBudget,
       remainingBudget: pool.remainingBudget,
+      reservedBudget: pool.reservedBudget,
       status: pool.status as any,
       createdAt: pool.createdAt,
       metadata: pool.metadata ? JSON.parse(pool.metadata) : undefined,
+      period: (pool.period as any) || undefined,
+      periodStartedAt: pool.periodStartedAt || undefined,
+      rateLimits: pool.rateLimits ? JSON.parse(pool.rateLimits) : undefined,
     };
   }
 
@@ -486,9 +550,16 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     if (pool.usedBudget !== undefined) data.usedBudget = pool.usedBudget;
     if (pool.remainingBudget !== undefined)
       data.remainingBudget = pool.remainingBudget;
+    if (pool.reservedBudget !== undefined)
+      data.reservedBudget = pool.reservedBudget;
     if (pool.status !== undefined) data.status = pool.status;
     if (pool.metadata !== undefined)
       data.metadata = JSON.stringify(pool.metadata);
+    if (pool.period !== undefined) data.period = pool.period;
+    if (pool.periodStartedAt !== undefined)
+      data.periodStartedAt = pool.periodStartedAt;
+    if (pool.rateLimits !== undefined)
+      data.rateLimits = JSON.stringify(pool.rateLimits);
 
     await this.prisma.budgetPool.update({
       where: { id },
@@ -504,12 +575,202 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     return pools.map((p) => ({
       id: p.id,
       parentPoolId: p.parentPoolId || undefined,
+      unit: p.unit as any,
       totalBudget: p.totalBudget,
       usedBudget: p.usedBudget,
       remainingBudget: p.remainingBudget,
+      reservedBudget: p.reservedBudget,
       status: p.status as any,
       createdAt: p.createdAt,
       metadata: p.metadata ? JSON.parse(p.metadata) : undefined,
+      period: (p.period as any) || undefined,
+      periodStartedAt: p.periodStartedAt || undefined,
+      rateLimits: p.rateLimits ? JSON.parse(p.rateLimits) : undefined,
+    }));
+  }
+
+  async consumeBudgetAtomic(
+    poolId: string,
+    consumption: BudgetConsumption
+  ): Promise<void> {
+    const { amount, reserve = 0, enforceLimit = false } = consumption;
+    const required = amount + Math.max(reserve, 0);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // A single conditional UPDATE: SQLite takes the write lock before
+        // reading the pools, so concurrent consumptions can't lose updates
+        const updated = await tx.$executeRaw`
+          ${poolChainSql(poolId)}
+          UPDATE budget_pools SET
+            usedBudget = usedBudget + ${amount},
+            remainingBudget = remainingBudget - ${amount},
+            reservedBudget = MAX(0, reservedBudget + ${reserve}),
+            status = CASE
+              WHEN status = 'active' AND remainingBudget - ${amount} <= 0
+              THEN 'exhausted'
+              ELSE status
+            END
+          WHERE id IN (SELECT id FROM pool_chain)
+          ${
+            enforceLimit
+              ? Prisma.sql`AND status = 'active'
+                  AND remainingBudget - reservedBudget >= ${required}`
+              : Prisma.empty
+          }`;
+
+        const chain = await tx.$queryRaw<{ id: string }[]>`
+          ${poolChainSql(poolId)}
+          SELECT id FROM pool_chain`;
+        if (chain.length === 0) {
+          throw new Error(`Budget pool ${poolId} not found`);
+        }
+        if (updated < chain.length) {
+          throw new BudgetLimitExceeded();
+        }
+
+        const poolIds = chain.map((pool) => pool.id);
+        if (enforceLimit) {
+          await this.checkRateLimits(tx, poolIds, amount);
+        }
+
+        if (amount !== 0) {
+          const timestamp = new Date();
+          await tx.budgetUsage.createMany({
+            data: poolIds.map((id) => ({ poolId: id, amount, timestamp })),
+          });
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof BudgetLimitExceeded)) throw error;
+
+      // Rolled back, report the pool that couldn't afford it
+      for (let id: string | undefined = poolId; id; ) {
+        const pool = await this.getBudgetPool(id);
+        if (!pool) break;
+        if (pool.status !== "active") {
+          throw new Error(`Budget pool ${pool.id} is not active`);
+        }
+        if (pool.remainingBudget - (pool.reservedBudget ?? 0) < required) {
+          throw new Error(`Insufficient budget in pool ${pool.id}`);
+        }
+        id = pool.parentPoolId;
+      }
+      throw new Error(`Insufficient budget in pool ${poolId}`);
+    }
+  }
+
+  /**
+   * Fail when spending an amount would exceed a rate limit of a pool
+   *
+   * Runs after the reserved budget was updated, so the open reservations,
+   * including the one being made, count against each window along with the
+   * settled usage.
+   */
+  private async checkRateLimits(
+    tx: Prisma.TransactionClient,
+    poolIds: string[],
+    amount: number
+  ): Promise<void> {
+    const pools = await tx.budgetPool.findMany({
+      where: { id: { in: poolIds }, rateLimits: { not: null } },
+    });
+
+    const now = Date.now();
+    for (const pool of pools) {
+      const rateLimits: BudgetRateLimit[] = JSON.parse(pool.rateLimits!);
+      for (const { windowMs, limit } of rateLimits) {
+        const { _sum } = await tx.budgetUsage.aggregate({
+          _sum: { amount: true },
+          where: {
+            poolId: pool.id,
+            timestamp: { gt: new Date(now - windowMs) },
+          },
+        });
+        if ((_sum.amount ?? 0) + pool.reservedBudget + amount > limit) {
+          throw new Error(
+            `Budget pool ${pool.id} exceeded its rate limit of ${limit} per ${windowMs}ms`
+          );
+        }
+      }
+    }
+  }
+
+  async increaseBudgetPool(poolId: string, amount: number): Promise<void> {
+    // Relative to the stored amounts, so concurrent consumptions aren't lost
+    const updated = await this.prisma.$executeRaw`
+      UPDATE budget_pools SET
+        totalBudget = totalBudget + ${amount},
+        remainingBudget = remainingBudget + ${amount},
+        status = CASE
+          WHEN remainingBudget + ${amount} > 0 THEN 'active'
+          ELSE status
+        END
+      WHERE id = ${poolId}`;
+    if (updated === 0) {
+      throw new Error(`Budget pool ${poolId} not found`);
+    }
+  }
+
+  async reactivateBudgetPool(poolId: string): Promise<void> {
+    const { count } = await this.prisma.budgetPool.updateMany({
+      where: { id: poolId, remainingBudget: { gt: 0 } },
+      data: { status: "active" },
+    });
+    if (count === 0 && !(await this.getBudgetPool(poolId))) {
+      throw new Error(`Budget pool ${poolId} not found`);
+    }
+  }
+
+  async resetBudgetPeriod(
+    poolId: string,
+    periodStartedAt: Date
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      // Conditional on the period, so concurrent resets apply once. The
+      // UPDATE takes the write lock, so the total budget copied below can't
+      // change in between.
+      const { count } = await tx.budgetPool.updateMany({
+        where: {
+          id: poolId,
+          OR: [
+            { periodStartedAt: null },
+            { periodStartedAt: { lt: periodStartedAt } },
+          ],
+        },
+        data: { usedBudget: 0, periodStartedAt },
+      });
+      if (count === 0) {
+        if (!(await tx.budgetPool.findUnique({ where: { id: poolId } }))) {
+          throw new Error(`Budget pool ${poolId} not found`);
+        }
+        return;
+      }
+
+      await tx.$executeRaw`
+        UPDATE budget_pools SET
+          remainingBudget = totalBudget,
+          status = CASE WHEN status = 'exhausted' THEN 'active' ELSE status END
+        WHERE id = ${poolId}`;
+    });
+  }
+
+  async listBudgetUsage(
+    poolId: string,
+    range?: { from?: Date; to?: Date }
+  ): Promise<BudgetUsageRecord[]> {
+    const usage = await this.prisma.budgetUsage.findMany({
+      where: {
+        poolId,
+        timestamp: { gte: range?.from, lt: range?.to },
+      },
+      orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+    });
+
+    return usage.map((u) => ({
+      poolId: u.poolId,
+      amount: u.amount,
+      timestamp: u.timestamp,
     }));
   }
 
@@ -710,9 +971,10 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     id: string,
     approvedBy: string,
     notes?: string
-  ): Promise<void> {
-    await this.prisma.approvalRequest.update({
-      where: { id },
+  ): Promise<boolean> {
+    // Conditional on the status, so concurrent approvals apply once
+    const { count } = await this.prisma.approvalRequest.updateMany({
+      where: { id, status: "pending" },
       data: {
         status: "approved",
         resolvedAt: new Date(),
@@ -720,6 +982,10 @@ export class SQLiteStorageAdapter implements StorageAdapter {
         resolutionNotes: notes,
       },
     });
+    if (count === 0 && !(await this.getApprovalRequest(id))) {
+      throw new Error(`Approval request ${id} not found`);
+    }
+    return count === 1;
   }
 
   async rejectRequest(
@@ -738,17 +1004,63 @@ export class SQLiteStorageAdapter implements StorageAdapter {
     });
   }
 
+  // ==================== Incident Operations ====================
+
+  async logIncident(incident: Incident): Promise<void> {
+    await this.prisma.incident.create({
+      data: {
+        id: incident.id,
+        sessionId: incident.sessionId,
+        nodeId: incident.nodeId,
+        severity: incident.severity,
+        message: incident.message,
+        details:
+          incident.details !== undefined
+            ? JSON.stringify(incident.details)
+            : null,
+        timestamp: incident.timestamp,
+      },
+    });
+  }
+
+  async listIncidents(filter?: QueryFilter<Incident>): Promise<Incident[]> {
+    const incidents = await this.prisma.incident.findMany({
+      where: this.buildWhereClause(filter?.where),
+      orderBy: filter?.orderBy
+        ? { [filter.orderBy.field as string]: filter.orderBy.direction }
+        : { timestamp: "asc" },
+      take: filter?.limit,
+      skip: filter?.offset,
+    });
+
+    return incidents.map((i) => ({
+      id: i.id,
+      sessionId: i.sessionId,
+      nodeId: i.nodeId,
+      severity: i.severity as any,
+      message: i.message,
+      details: i.details ? JSON.parse(i.details) : undefined,
+      timestamp: i.timestamp,
+    }));
+  }
+
   // ==================== Stream Operations (Optional) ====================
 
   async saveStreamEvent(event: StreamEvent): Promise<void> {
-    await this.prisma.streamEvent.create({
-      data: {
+    // Nodes running again after a pause save their events again
+    await this.prisma.streamEvent.upsert({
+      where: { id: event.id },
+      create: {
         id: event.id,
         streamId: event.streamId,
         nodeId: event.nodeId,
         data: JSON.stringify(event.data),
         timestamp: event.timestamp,
       },
+      update: {
+        data: JSON.stringify(event.data),
+        timestamp: event.timestamp,
+      },
     });
   }
 
@@ -7,6 +7,7 @@ import type {
   WorkflowExecutionState,
   BudgetPool,
   ApprovalRequest,
+  Incident,
   ToolCallLog,
 } from "@aaow/types";
 
@@ -35,9 +36,18 @@ async function setupTestDatabase(adapter?: SQLiteStorageAdapter) {
       // Ignore
     }
 
-    // Read migration SQL
-    const migrationPath = path.join(__dirname, "..", "prisma/migrations/20251116142851_init/migration.sql");
-    const migrationSQL = fs.readFileSync(migrationPath, "utf-8");
+    // Read migration SQL, in migration order
+    const migrationsDir = path.join(__dirname, "..", "prisma/migrations");
+    const migrationSQL = fs
+      .readdirSync(migrationsDir)
+      .filter((name: string) =>
+        fs.existsSync(path.join(migrationsDir, name, "migration.sql"))
+      )
+      .sort()
+      .map((name: string) =>
+        fs.readFileSync(path.join(migrationsDir, name, "migration.sql"), "utf-8")
+      )
+      .join("\n");
 
     // Create a temporary adapter to execute the migration
     const tmpAdapter = adapter || new SQLiteStorageAdapter(TEST_DB_URL);
@@ -65,12 +75,14 @@ async function setupTestDatabase(adapter?: SQLiteStorageAdapter) {
 async function cleanTestDatabase(adapter: SQLiteStorageAdapter) {
   // Delete all data in reverse order of dependencies
   await (adapter as any).prisma.$executeRaw`DELETE FROM stream_events`;
+  await (adapter as any).prisma.$executeRaw`DELETE FROM incidents`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM tool_call_logs`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM approval_requests`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM llm_executions`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM node_execution_states`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM execution_states`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM sessions`;
+  await (adapter as any).prisma.$executeRaw`DELETE FROM budget_usage`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM budget_pools`;
   await (adapter as any).prisma.$executeRaw`DELETE FROM workflows`;
 }
@@ -341,6 +353,53 @@ describe("SQLiteStorageAdapter", () => {
       expect(retrieved?.nodeStates["node-1"]).toBeDefined();
     });
 
+    it("should persist the execution lease", async () => {
+      const heartbeatAt = new Date();
+      const leaseExpiresAt = new Date(heartbeatAt.getTime() + 30000);
+      await adapter.saveExecutionState({
+        ...testExecutionState,
+        leaseOwner: "worker-1",
+        heartbeatAt,
+        leaseExpiresAt,
+      });
+      const retrieved = await adapter.getExecutionState("session-1");
+
+      expect(retrieved?.leaseOwner).toBe("worker-1");
+      expect(retrieved?.heartbeatAt).toEqual(heartbeatAt);
+      expect(retrieved?.leaseExpiresAt).toEqual(leaseExpiresAt);
+    });
+
+    it("should claim the lease only from its expected holder", async () => {
+      const leaseExpiresAt = new Date(Date.now() - 1000);
+      await adapter.saveExecutionState({
+        ...testExecutionState,
+        leaseOwner: "worker-1",
+        leaseExpiresAt,
+      });
+      const claim = (leaseOwner: string) =>
+        adapter.claimSessionLease(
+          "session-1",
+          {
+            leaseOwner,
+            heartbeatAt: new Date(),
+            leaseExpiresAt: new Date(Date.now() + 30000),
+          },
+          { leaseOwner: "worker-1", leaseExpiresAt }
+        );
+
+      const claims = await Promise.all([claim("worker-2"), claim("worker-3")]);
+      expect(claims.filter(Boolean)).toHaveLength(1);
+
+      // Saving the state again leaves the claimed lease in place
+      await adapter.saveExecutionState({
+        ...testExecutionState,
+        leaseOwner: "worker-1",
+        leaseExpiresAt,
+      });
+      const retrieved = await adapter.getExecutionState("session-1");
+      expect(retrieved?.leaseOwner).toBe(claims[0] ? "worker-2" : "worker-3");
+    });
+
     it("should update node state", async () => {
       await adapter.saveExecutionState(testExecutionState);
       await adapter.updateNodeState("session-1", "node-1", {
@@ -470,6 +529,25 @@ describe("SQLiteStorageAdapter", () => {
       expect(executions[0].toolCalls).toHaveLength(1);
       expect(executions[0].toolCalls?.[0].toolName).toBe("calculator");
     });
+
+    it("should store the cost and cached tokens of an LLM execution", async () => {
+      await adapter.saveLLMExecution("session-1", "node-1", {
+        id: "exec-1",
+        timestamp: new Date(),
+        success: true,
+        usage: {
+          promptTokens: 1000,
+          completionTokens: 500,
+          totalTokens: 1500,
+          cachedPromptTokens: 800,
+        },
+        cost: 0.0125,
+      });
+
+      const [execution] = await adapter.getLLMExecutions("session-1");
+      expect(execution.cost).toBe(0.0125);
+      expect(execution.usage?.cachedPromptTokens).toBe(800);
+    });
   });
 
   describe("Budget Pool Operations", () => {
@@ -522,6 +600,308 @@ describe("SQLiteStorageAdapter", () => {
       expect(children[0].id).toBe("pool-2");
       expect(children[0].parentPoolId).toBe("pool-1");
     });
+
+    it("should store reserved budget", async () => {
+      await adapter.createBudgetPool(testPool);
+      expect((await adapter.getBudgetPool("pool-1"))?.reservedBudget).toBe(0);
+
+      await adapter.updateBudgetPool("pool-1", { reservedBudget: 250 });
+      expect((await adapter.getBudgetPool("pool-1"))?.reservedBudget).toBe(250);
+    });
+
+    it("should default the budget unit to tokens", async () => {
+      await adapter.createBudgetPool(testPool);
+      await adapter.createBudgetPool({
+        ...testPool,
+        id: "pool-2",
+        unit: "currency",
+      });
+
+      expect((await adapter.getBudgetPool("pool-1"))?.unit).toBe("tokens");
+      expect((await adapter.getBudgetPool("pool-2"))?.unit).toBe("currency");
+    });
+  });
+
+  describe("Budget Concurrency", () => {
+    const createPools = async (parentBudget: number, childBudget: number) => {
+      await adapter.createBudgetPool({
+        id: "parent",
+        totalBudget: parentBudget,
+        usedBudget: 0,
+        remainingBudget: parentBudget,
+        reservedBudget: 0,
+        status: "active",
+        createdAt: new Date(),
+      });
+      await adapter.createBudgetPool({
+        id: "child",
+        parentPoolId: "parent",
+        totalBudget: childBudget,
+        usedBudget: 0,
+        remainingBudget: childBudget,
+        reservedBudget: 0,
+        status: "active",
+        createdAt: new Date(),
+      });
+    };
+
+    it("should not lose concurrent updates", async () => {
+      await createPools(10000, 1000);
+
+      await Promise.all(
+        Array.from({ length: 50 }, () =>
+          adapter.consumeBudgetAtomic("child", { amount: 10 })
+        )
+      );
+
+      const child = await adapter.getBudgetPool("child");
+      const parent = await adapter.getBudgetPool("parent");
+      expect(child?.usedBudget).toBe(500);
+      expect(child?.remainingBudget).toBe(500);
+      expect(parent?.usedBudget).toBe(500);
+      expect(parent?.remainingBudget).toBe(9500);
+    });
+
+    it("should not overspend a pool under concurrent consumption", async () => {
+      await createPools(10000, 10);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 20 }, () =>
+          adapter.consumeBudgetAtomic("child", {
+            amount: 1,
+            enforceLimit: true,
+          })
+        )
+      );
+
+      const fulfilled = results.filter((r) => r.status === "fulfilled");
+      expect(fulfilled).toHaveLength(10);
+
+      const child = await adapter.getBudgetPool("child");
+      const parent = await adapter.getBudgetPool("parent");
+      expect(child?.remainingBudget).toBe(0);
+      expect(child?.status).toBe("exhausted");
+      expect(parent?.usedBudget).toBe(10);
+    });
+
+    it("should track reservations across the chain", async () => {
+      await createPools(1000, 100);
+
+      await Promise.all(
+        Array.from({ length: 10 }, () =>
+          adapter.consumeBudgetAtomic("child", {
+            amount: 0,
+            reserve: 10,
+            enforceLimit: true,
+          })
+        )
+      );
+      expect((await adapter.getBudgetPool("parent"))?.reservedBudget).toBe(100);
+
+      await expect(
+        adapter.consumeBudgetAtomic("child", {
+          amount: 0,
+          reserve: 1,
+          enforceLimit: true,
+        })
+      ).rejects.toThrow("Insufficient budget in pool child");
+
+      await Promise.all(
+        Array.from({ length: 10 }, () =>
+          adapter.consumeBudgetAtomic("child", { amount: 5, reserve: -10 })
+        )
+      );
+
+      const child = await adapter.getBudgetPool("child");
+      expect(child?.reservedBudget).toBe(0);
+      expect(child?.usedBudget).toBe(50);
+      expect((await adapter.getBudgetPool("parent"))?.usedBudget).toBe(50);
+    });
+
+    it("should leave the chain untouched when an ancestor can't afford it", async () => {
+      await createPools(5, 100);
+
+      await expect(
+        adapter.consumeBudgetAtomic("child", {
+          amount: 10,
+          enforceLimit: true,
+        })
+      ).rejects.toThrow("Insufficient budget in pool parent");
+
+      const child = await adapter.getBudgetPool("child");
+      expect(child?.usedBudget).toBe(0);
+      expect(child?.remainingBudget).toBe(100);
+    });
+
+    it("should not lose consumptions interleaving with top-ups", async () => {
+      await createPools(10000, 100);
+
+      await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          i % 2
+            ? adapter.consumeBudgetAtomic("child", { amount: 5 })
+            : adapter.increaseBudgetPool("child", 10)
+        )
+      );
+
+      expect(await adapter.getBudgetPool("child")).toMatchObject({
+        totalBudget: 200,
+        usedBudget: 50,
+        remainingBudget: 150,
+      });
+    });
+
+    it("should reactivate only pools with remaining budget", async () => {
+      await createPools(10000, 10);
+      await adapter.consumeBudgetAtomic("child", { amount: 10 });
+      await adapter.updateBudgetPool("parent", { status: "suspended" });
+
+      await adapter.reactivateBudgetPool("child");
+      await adapter.reactivateBudgetPool("parent");
+
+      expect((await adapter.getBudgetPool("child"))?.status).toBe("exhausted");
+      expect((await adapter.getBudgetPool("parent"))?.status).toBe("active");
+    });
+
+    it("should fail for a missing pool", async () => {
+      await expect(
+        adapter.consumeBudgetAtomic("missing", { amount: 1 })
+      ).rejects.toThrow("Budget pool missing not found");
+    });
+  });
+
+  describe("Budget Usage", () => {
+    const pool: BudgetPool = {
+      id: "pool-1",
+      totalBudget: 1000,
+      usedBudget: 0,
+      remainingBudget: 1000,
+      reservedBudget: 0,
+      status: "active",
+      createdAt: new Date(),
+    };
+
+    it("should store period and rate limits", async () => {
+      const periodStartedAt = new Date("2026-03-10T00:00:00Z");
+      await adapter.createBudgetPool({
+        ...pool,
+        period: "day",
+        periodStartedAt,
+        rateLimits: [{ windowMs: 60000, limit: 100 }],
+      });
+
+      expect(await adapter.getBudgetPool("pool-1")).toMatchObject({
+        period: "day",
+        periodStartedAt,
+        rateLimits: [{ windowMs: 60000, limit: 100 }],
+      });
+    });
+
+    it("should record spending on every pool of the chain", async () => {
+      await adapter.createBudgetPool(pool);
+      await adapter.createBudgetPool({
+        ...pool,
+        id: "pool-2",
+        parentPoolId: "pool-1",
+      });
+      await adapter.consumeBudgetAtomic("pool-2", { amount: 10 });
+      await adapter.consumeBudgetAtomic("pool-2", { amount: 0, reserve: 50 });
+      await adapter.consumeBudgetAtomic("pool-2", { amount: 20, reserve: -50 });
+
+      const usage = await adapter.listBudgetUsage("pool-1");
+      expect(usage.map((u) => u.amount)).toEqual([10, 20]);
+      expect(
+        await adapter.listBudgetUsage("pool-2", { from: new Date(0) })
+      ).toHaveLength(2);
+      expect(
+        await adapter.listBudgetUsage("pool-2", { to: new Date(0) })
+      ).toHaveLength(0);
+    });
+
+    it("should enforce rate limits", async () => {
+      await adapter.createBudgetPool({
+        ...pool,
+        rateLimits: [{ windowMs: 60000, limit: 50 }],
+      });
+      await adapter.consumeBudgetAtomic("pool-1", {
+        amount: 40,
+        enforceLimit: true,
+      });
+
+      await expect(
+        adapter.consumeBudgetAtomic("pool-1", {
+          amount: 20,
+          enforceLimit: true,
+        })
+      ).rejects.toThrow("Budget pool pool-1 exceeded its rate limit");
+      expect((await adapter.getBudgetPool("pool-1"))?.usedBudget).toBe(40);
+    });
+
+    it("should count concurrent reservations against rate limits", async () => {
+      await adapter.createBudgetPool({
+        ...pool,
+        rateLimits: [{ windowMs: 60000, limit: 50 }],
+      });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 10 }, () =>
+          adapter.consumeBudgetAtomic("pool-1", {
+            amount: 0,
+            reserve: 10,
+            enforceLimit: true,
+          })
+        )
+      );
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(5);
+      expect((await adapter.getBudgetPool("pool-1"))?.reservedBudget).toBe(50);
+    });
+
+    it("should reset a period once", async () => {
+      await adapter.createBudgetPool({
+        ...pool,
+        usedBudget: 1000,
+        remainingBudget: 0,
+        status: "exhausted",
+        period: "day",
+        periodStartedAt: new Date("2026-03-10T00:00:00Z"),
+      });
+
+      const nextPeriod = new Date("2026-03-11T00:00:00Z");
+      await adapter.resetBudgetPeriod("pool-1", nextPeriod);
+      await adapter.consumeBudgetAtomic("pool-1", { amount: 100 });
+      await adapter.resetBudgetPeriod("pool-1", nextPeriod);
+
+      expect(await adapter.getBudgetPool("pool-1")).toMatchObject({
+        usedBudget: 100,
+        remainingBudget: 900,
+        status: "active",
+        periodStartedAt: nextPeriod,
+      });
+    });
+
+    it("should reset a period to the total budget of concurrent top-ups", async () => {
+      await adapter.createBudgetPool({
+        ...pool,
+        usedBudget: 1000,
+        remainingBudget: 0,
+        status: "exhausted",
+        period: "day",
+        periodStartedAt: new Date("2026-03-10T00:00:00Z"),
+      });
+
+      await Promise.all([
+        adapter.increaseBudgetPool("pool-1", 500),
+        adapter.resetBudgetPeriod("pool-1", new Date("2026-03-11T00:00:00Z")),
+      ]);
+
+      expect(await adapter.getBudgetPool("pool-1")).toMatchObject({
+        totalBudget: 1500,
+        usedBudget: 0,
+        remainingBudget: 1500,
+        status: "active",
+      });
+    });
   });
 
   describe("Tool Call Operations", () => {
@@ -683,6 +1063,17 @@ describe("SQLiteStorageAdapter", () => {
       expect(approved?.resolvedAt).toBeDefined();
     });
 
+    it("should approve a request only once", async () => {
+      await adapter.createApprovalRequest(testApproval);
+
+      const approved = await Promise.all([
+        adapter.approveRequest("approval-1", "first@test.com"),
+        adapter.approveRequest("approval-1", "second@test.com"),
+      ]);
+
+      expect(approved.filter(Boolean)).toHaveLength(1);
+    });
+
     it("should reject a request", async () => {
       await adapter.createApprovalRequest(testApproval);
       await adapter.rejectRequest(
@@ -708,6 +1099,53 @@ describe("SQLiteStorageAdapter", () => {
     });
   });
 
+  describe("Incident Operations", () => {
+    beforeEach(async () => {
+      await adapter.createSession({
+        id: "session-1",
+        workflowSnapshot: mockWorkflow,
+        status: "running",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    const testIncident: Incident = {
+      id: "incident-1",
+      sessionId: "session-1",
+      nodeId: "node-1",
+      severity: "warning",
+      message: "Source returned stale data",
+      details: { source: "feed" },
+      timestamp: new Date(),
+    };
+
+    it("should log and list incidents", async () => {
+      await adapter.logIncident(testIncident);
+
+      const incidents = await adapter.listIncidents();
+      expect(incidents).toHaveLength(1);
+      expect(incidents[0]).toEqual(testIncident);
+    });
+
+    it("should filter incidents by session and severity", async () => {
+      await adapter.logIncident(testIncident);
+      await adapter.logIncident({
+        ...testIncident,
+        id: "incident-2",
+        severity: "critical",
+        details: undefined,
+      });
+
+      const critical = await adapter.listIncidents({
+        where: { sessionId: "session-1", severity: "critical" },
+      });
+      expect(critical).toHaveLength(1);
+      expect(critical[0].id).toBe("incident-2");
+      expect(critical[0].details).toBeUndefined();
+    });
+  });
+
   describe("Stream Operations", () => {
     it("should save a stream event", async () => {
       await expect(
@@ -740,6 +1178,22 @@ describe("SQLiteStorageAdapter", () => {
       const events = await adapter.getStreamEvents("stream-1");
       expect(events).toHaveLength(2);
     });
+
+    it("should replace a stream event saved again", async () => {
+      for (const value of [1, 2]) {
+        await adapter.saveStreamEvent({
+          id: "event-1",
+          streamId: "stream-1",
+          nodeId: "node-1",
+          data: { value },
+          timestamp: new Date(),
+        });
+      }
+
+      const events = await adapter.getStreamEvents("stream-1");
+      expect(events).toHaveLength(1);
+      expect(events[0].data).toEqual({ value: 2 });
+    });
   });
 
   describe("Complex Scenarios", () => {
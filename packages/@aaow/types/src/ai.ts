@@ -93,6 +93,100 @@ export interface LLMConfig {
   maxRetries?: number;
 }
 
+/**
+ * Price of a model's tokens, per million tokens, in the currency budgets
+ * are set in
+ */
+export interface ModelPricing {
+  /** Price of prompt tokens */
+  inputPerMillionTokens: number;
+
+  /** Price of completion tokens */
+  outputPerMillionTokens: number;
+
+  /** Price of prompt tokens read from the prompt cache (default: input price) */
+  cachedInputPerMillionTokens?: number;
+}
+
+/**
+ * Pricing registry - model pricing by model ID
+ */
+export type PricingRegistry = Record<string, ModelPricing>;
+
+/**
+ * Context passed to an external stream source when a stream node subscribes
+ */
+export interface StreamSourceContext {
+  /** Session the stream node runs in */
+  sessionId: string;
+
+  /** Full ID of the subscribing stream node */
+  nodeId: string;
+
+  /** Input of the stream node */
+  input: unknown;
+
+  /** Aborted when the stream node stops consuming the source */
+  signal: AbortSignal;
+}
+
+/**
+ * External stream source, yielding the items of `external` stream sources
+ *
+ * The next item is only requested once the previous one went through the
+ * stream node's operators, so a source reading at its own pace gets
+ * backpressure for free.
+ */
+export type StreamSourceFactory = (
+  context: StreamSourceContext
+) => AsyncIterable<unknown>;
+
+/**
+ * Stream source registry - external stream sources by `sourceFn` name
+ */
+export type StreamSourceRegistry = Record<string, StreamSourceFactory>;
+
+/**
+ * Handle passed to a generator node's function
+ */
+export interface GeneratorHandle {
+  /** Session the generator node runs in */
+  sessionId: string;
+
+  /** Full ID of the generator node */
+  nodeId: string;
+
+  /** Input of the generator node */
+  input: unknown;
+
+  /** Values of the `data` context items listed in `contextAccess` */
+  context: Record<string, unknown>;
+
+  /**
+   * Run a `nodeRef` or `workflowRef` context item listed in `contextAccess`,
+   * or else a sibling node, and return its output
+   */
+  call(name: string, input: unknown): Promise<unknown>;
+
+  /** Aborted when the generator's group stops it */
+  signal: AbortSignal;
+}
+
+/**
+ * Function of a generator node
+ *
+ * Yielded values are streamed to the stream nodes observing the generator
+ * node, and the return value is the node output.
+ */
+export type WorkflowGenerator = (
+  handle: GeneratorHandle
+) => AsyncGenerator<unknown, unknown, undefined>;
+
+/**
+ * Generator registry - generator node functions by `generatorFn` name
+ */
+export type GeneratorRegistry = Record<string, WorkflowGenerator>;
+
 /**
  * Execution context for workflow runs
  */
@@ -131,8 +225,14 @@ export interface LLMExecutionResult {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+
+    /** Prompt tokens read from the provider's prompt cache */
+    cachedPromptTokens?: number;
   };
 
+  /** Cost of the execution, when the model has pricing */
+  cost?: number;
+
   /** Execution metadata */
   metadata?: Record<string, unknown>;
 }
@@ -48,12 +48,41 @@ export interface WorkflowNodeGroup extends WorkflowNodeBase {
   entryPoint: string;
   exitPoint: string;
   context?: WorkflowContext;
+  loop?: WorkflowNodeGroupLoop;
+  onError?: WorkflowNodeGroupErrorHandler;
+}
+
+// Catch failures of child nodes, like try/catch around the group
+export interface WorkflowNodeGroupErrorHandler {
+  // re-run the whole group up to this many times before falling back
+  retries?: number;
+  // abort sibling branches still running when a child node fails
+  abortSiblings?: boolean;
+  // recovery once retries are exhausted, the error is rethrown when omitted
+  fallback?: WorkflowNodeGroupFallback;
+}
+
+// Fallbacks receive { input, error: { nodeId, message } }
+export type WorkflowNodeGroupFallback =
+  | { type: "node"; nodeId: string } // node in the group's nodes, not connected by edges
+  | { type: "output"; fn: WorkflowNodeTransformFn };
+
+// Restart the group from its entry point while the condition holds
+export interface WorkflowNodeGroupLoop {
+  // evaluated on { input, output, iteration } after each iteration; the group restarts when it returns true
+  condition: WorkflowNodeTransformFn;
+  maxIterations: number;
+  // maps { input, output, iteration } to the next iteration's input, defaults to the iteration output
+  nextInput?: WorkflowNodeTransformFn;
 }
 
 export interface WorkflowNodeLLM extends WorkflowNodeBase {
   type: "llm";
   maxRetries: number; // can be increased by tool calling: "increaseMaxRetries"
+  // "{{key}}" placeholders are replaced with data items of the enclosing groups' contexts
   systemPrompt?: string;
+  // cap on generated tokens per call, also bounds the budget reserved for it
+  maxTokens?: number;
   availableTools?: WorkflowTool[];
   reviewers?: WorkflowNodeLLMReviewer[];
   requiresHumanReview?: boolean;
@@ -84,13 +113,25 @@ export interface WorkflowNodeTransform extends WorkflowNodeBase {
 // Call external workflow or subgraph as a reusable node
 export interface WorkflowNodeCallWorkflow extends WorkflowNodeBase {
   type: "callWorkflow";
-  // Reference to workflow (context key or workflow ID)
+  // Reference to workflow (context key or workflow ID), a nodeRef context
+  // key calls that node instead
   workflowRef: string;
   // Optional input/output mapping
   inputMapping?: WorkflowNodeTransformFn;
   outputMapping?: WorkflowNodeTransformFn;
   // Whether to request user approval before execution
   requiresApproval?: boolean;
+  // Spending cap of the called workflow
+  budget?: WorkflowCallBudget;
+}
+
+// Budget of a called workflow, in a child pool of the caller's pool
+export interface WorkflowCallBudget {
+  // Cap on the called workflow's spending, charged to the caller's pool too
+  amount: number;
+  // Once the budget runs out and an increase is approved, continue in an
+  // independent pool of this size instead of increasing the caller's pools
+  independentAmount?: number;
 }
 
 // Stream node for reactive data processing
@@ -118,7 +159,8 @@ type WorkflowNodeTransformFn =
   | WorkflowNodeTransformFnGet
   | WorkflowNodeTransformFnObject
   | WorkflowNodeTransformFnTaggedUnion
-  | WorkflowNodeTransformFnConst;
+  | WorkflowNodeTransformFnConst
+  | WorkflowNodeTransformFnContext;
 
 // conditional branching depending on a enum value or tag of a tagged union
 interface WorkflowNodeTransformFnIf {
@@ -162,6 +204,13 @@ interface WorkflowNodeTransformFnConst {
   value: unknown;
 }
 
+// data item of an enclosing group's context
+interface WorkflowNodeTransformFnContext {
+  type: "context";
+  key: string;
+  path?: string[]; // "path" = ["foo"], item = { foo: "value" } -> "value"
+}
+
 // Stream source types
 export type WorkflowStreamSource =
   | { type: "node"; nodeId: string }
@@ -179,7 +228,8 @@ export type WorkflowStreamOperator =
   | { type: "skip"; count: number }
   | { type: "scan"; fn: WorkflowNodeTransformFn; initialValue?: unknown }
   | { type: "distinct" }
-  | { type: "distinctUntilChanged" };
+  | { type: "distinctUntilChanged" }
+  | { type: "context"; key: string }; // streamOperator item of an enclosing group's context
 
 export type WorkflowNode =
   | WorkflowNodeGroup
@@ -195,4 +245,11 @@ export interface WorkflowEdge {
   previousNodeMessageOutputFieldName?: string;
   messageInputFieldName?: string;
   description: string;
+  condition?: WorkflowEdgeCondition;
+}
+
+// conditional edge, taken only when the enum value or tag of a tagged union matches
+export interface WorkflowEdgeCondition {
+  path?: string[]; // evaluated against the source node output, same as transform "if"
+  match: string[];
 }
@@ -14,7 +14,8 @@ export type SessionStatus =
   | "failed"
   | "waiting_for_human_review"
   | "waiting_for_budget_approval"
-  | "waiting_for_workflow_approval";
+  | "waiting_for_workflow_approval"
+  | "waiting_for_retry_approval";
 
 /**
  * Budget pool status
@@ -27,7 +28,8 @@ export type BudgetPoolStatus = "active" | "exhausted" | "suspended";
 export type ApprovalType =
   | "human_review"
   | "budget_increase"
-  | "workflow_call";
+  | "workflow_call"
+  | "retry_increase";
 
 /**
  * Approval status
@@ -69,6 +71,9 @@ export interface ApprovalRequest {
     /** For workflow call: workflow to be called */
     workflowRef?: string;
 
+    /** For retry increase: additional retries requested by the LLM */
+    requestedRetries?: number;
+
     /** For human review: LLM output to review */
     llmOutput?: unknown;
 
@@ -127,6 +132,30 @@ export interface Session {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * What a budget pool's amounts count
+ *
+ * - `tokens`: total tokens
+ * - `currency`: cost computed from model pricing
+ */
+export type BudgetUnit = "tokens" | "currency";
+
+/**
+ * Period after which a recurring budget resets, in UTC
+ */
+export type BudgetPeriod = "hour" | "day" | "month";
+
+/**
+ * Cap on the spending of a pool over a rolling window
+ */
+export interface BudgetRateLimit {
+  /** Length of the window, in milliseconds */
+  windowMs: number;
+
+  /** Maximum amount spent within any window */
+  limit: number;
+}
+
 /**
  * Budget pool for hierarchical cost control
  */
@@ -137,6 +166,9 @@ export interface BudgetPool {
   /** Parent pool ID for hierarchical budgets */
   parentPoolId?: string;
 
+  /** What the budget amounts count (default: tokens) */
+  unit?: BudgetUnit;
+
   /** Total allocated budget (tokens or cost) */
   totalBudget: number;
 
@@ -146,6 +178,21 @@ export interface BudgetPool {
   /** Remaining budget */
   remainingBudget: number;
 
+  /** Part of the remaining budget reserved by LLM calls in flight */
+  reservedBudget?: number;
+
+  /**
+   * Period of a recurring budget: at the start of each period, the used
+   * budget resets and the total budget is available again
+   */
+  period?: BudgetPeriod;
+
+  /** Start of the current period of a recurring budget */
+  periodStartedAt?: Date;
+
+  /** Caps on the spending over rolling windows */
+  rateLimits?: BudgetRateLimit[];
+
   /** Pool status */
   status: BudgetPoolStatus;
 
@@ -156,6 +203,37 @@ export interface BudgetPool {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Budget change applied to a pool and all its ancestors
+ */
+export interface BudgetConsumption {
+  /** Amount spent, added to the used budget and taken from the remaining one */
+  amount: number;
+
+  /** Change of the reserved budget, negative to release a reservation */
+  reserve?: number;
+
+  /**
+   * Fail unless every pool is active and has the amount, plus any increase
+   * of the reserved budget, available (remaining minus reserved budget)
+   */
+  enforceLimit?: boolean;
+}
+
+/**
+ * Amount spent on a budget pool, recorded for its usage history
+ */
+export interface BudgetUsageRecord {
+  /** Pool the amount was charged to */
+  poolId: string;
+
+  /** Amount spent, in the pool's unit */
+  amount: number;
+
+  /** When the amount was spent */
+  timestamp: Date;
+}
+
 /**
  * Node execution status
  */
@@ -218,6 +296,29 @@ export interface WorkflowExecutionState extends ExecutionContext {
 
   /** Node execution states */
   nodeStates: Record<string, NodeExecutionState>;
+
+  /** Worker holding the lease on the running session */
+  leaseOwner?: string;
+
+  /** Last heartbeat from the lease owner */
+  heartbeatAt?: Date;
+
+  /** Lease expiration, after which the session counts as abandoned */
+  leaseExpiresAt?: Date;
+}
+
+/**
+ * Lease of a worker on a running session
+ */
+export interface SessionLease {
+  /** Worker holding the lease */
+  leaseOwner: string;
+
+  /** Heartbeat taking or renewing the lease */
+  heartbeatAt: Date;
+
+  /** Lease expiration, after which the session counts as abandoned */
+  leaseExpiresAt: Date;
 }
 
 /**
@@ -257,6 +358,38 @@ export interface StreamEvent {
   timestamp: Date;
 }
 
+/**
+ * Incident severity
+ */
+export type IncidentSeverity = "info" | "warning" | "error" | "critical";
+
+/**
+ * Incident reported during a workflow run, e.g. by an LLM calling the
+ * `logIncident` tool
+ */
+export interface Incident {
+  /** Unique incident identifier */
+  id: string;
+
+  /** Session the incident happened in */
+  sessionId: string;
+
+  /** Node that reported the incident */
+  nodeId: string;
+
+  /** Incident severity */
+  severity: IncidentSeverity;
+
+  /** What happened */
+  message: string;
+
+  /** Additional structured details */
+  details?: Record<string, unknown>;
+
+  /** Report timestamp */
+  timestamp: Date;
+}
+
 /**
  * Stored workflow with metadata
  */
@@ -394,9 +527,24 @@ export interface StorageAdapter {
 
   /**
    * Save workflow execution state
+   *
+   * The lease fields are only saved when the state is created; afterwards
+   * they only change through `claimSessionLease`.
    */
   saveExecutionState(state: WorkflowExecutionState): Promise<void>;
 
+  /**
+   * Take or renew the lease on a session as one atomic operation, only if
+   * its current lease still has the `expected` owner and expiration (none
+   * for a session that was never leased). Returns whether the lease was
+   * taken, so concurrent claims on the same lease succeed once.
+   */
+  claimSessionLease(
+    sessionId: string,
+    lease: SessionLease,
+    expected: Pick<WorkflowExecutionState, "leaseOwner" | "leaseExpiresAt">
+  ): Promise<boolean>;
+
   /**
    * Get execution state by session ID
    */
@@ -460,6 +608,52 @@ export interface StorageAdapter {
    */
   getChildBudgetPools(parentId: string): Promise<BudgetPool[]>;
 
+  /**
+   * Apply a budget change to a pool and all its ancestors as one atomic
+   * operation: either every pool is updated or none is, and concurrent
+   * changes don't overwrite each other. Pools whose remaining budget drops
+   * to zero become `exhausted`.
+   *
+   * Spent amounts are recorded in each pool's usage history. When enforcing
+   * limits, the change also fails if it would exceed a rate limit. The
+   * pool's open reservations count against each window, as they are about
+   * to be spent.
+   */
+  consumeBudgetAtomic(
+    poolId: string,
+    consumption: BudgetConsumption
+  ): Promise<void>;
+
+  /**
+   * Add an amount to the total and remaining budget of a pool as one atomic
+   * operation, so concurrent consumptions aren't lost. The pool becomes
+   * `active` when its remaining budget is positive afterwards.
+   */
+  increaseBudgetPool(poolId: string, amount: number): Promise<void>;
+
+  /**
+   * Make a pool `active` again, as one atomic operation, if it has
+   * remaining budget
+   */
+  reactivateBudgetPool(poolId: string): Promise<void>;
+
+  /**
+   * Start a new period of a recurring budget pool: reset its used budget
+   * and reactivate it if exhausted, as one atomic operation. Does nothing
+   * when the pool's current period already started at or after
+   * `periodStartedAt`, so concurrent resets apply once.
+   */
+  resetBudgetPeriod(poolId: string, periodStartedAt: Date): Promise<void>;
+
+  /**
+   * List the amounts spent on a pool, oldest first, optionally within
+   * `[from, to)`
+   */
+  listBudgetUsage(
+    poolId: string,
+    range?: { from?: Date; to?: Date }
+  ): Promise<BudgetUsageRecord[]>;
+
   // ==================== Tool Call Operations ====================
 
   /**
@@ -516,23 +710,40 @@ export interface StorageAdapter {
   ): Promise<void>;
 
   /**
-   * Approve an approval request
+   * Approve a pending approval request
+   *
+   * The request only moves from `pending` to `approved` once, so of several
+   * concurrent approvals exactly one reports that it approved the request.
+   *
+   * @returns Whether this call approved the request
    */
   approveRequest(
     id: string,
     approvedBy: string,
     notes?: string
-  ): Promise<void>;
+  ): Promise<boolean>;
 
   /**
    * Reject an approval request
    */
   rejectRequest(id: string, rejectedBy: string, reason?: string): Promise<void>;
 
+  // ==================== Incident Operations ====================
+
+  /**
+   * Store an incident
+   */
+  logIncident(incident: Incident): Promise<void>;
+
+  /**
+   * List incidents, e.g. by session, node or severity
+   */
+  listIncidents(filter?: QueryFilter<Incident>): Promise<Incident[]>;
+
   // ==================== Stream Operations (Optional) ====================
 
   /**
-   * Store a stream event
+   * Store a stream event, replacing the event with the same ID if any
    */
   saveStreamEvent?(event: StreamEvent): Promise<void>;
 